@@ -5,6 +5,7 @@ import RootNavigator from './src/navigation/RootNavigator';
 import { ThemeProvider } from './src/lib/ThemeProvider';
 import storage from './src/lib/storage';
 import db from './src/lib/db';
+import { loadConfig } from './src/lib/config';
 
 
 // added: 
@@ -56,6 +57,8 @@ export default function App() {
     let mounted = true;
     const restore = async () => {
       try {
+        // pick the backend chosen in the debug panel before anything talks to it
+        await loadConfig();
         // initialize DB (native or fallback)
         await db.init_db();
 
@@ -0,0 +1,5 @@
+// Runs before every test file (see "jest" in package.json)
+import '@testing-library/jest-native/extend-expect';
+
+// AsyncStorage has no native module under jest; the package's mock keeps values in memory
+jest.mock('@react-native-async-storage/async-storage', () => require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
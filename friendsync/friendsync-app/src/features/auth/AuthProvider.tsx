@@ -1,19 +1,48 @@
 import React from "react";
 import { onAuthStateChanged, User } from "firebase/auth";
 import { auth } from "../../lib/firebase";
+import { resolveUserId } from "../../lib/identity";
+import { setTokenSource } from "../../lib/api";
+import { signOutUser } from "./useGoogleSignIn";
 
-type Ctx = { user: User | null; ready: boolean };
-const AuthContext = React.createContext<Ctx>({ user: null, ready: false });
+// seedDummyData's first user, so the seeded data stays browsable while signed out in development
+const DEV_USER_ID = 1;
+
+// userId: the backend (and local db) id of the signed-in user, null until it is known
+type Ctx = { user: User | null; ready: boolean; userId: number | null };
+const AuthContext = React.createContext<Ctx>({ user: null, ready: false, userId: null });
 export const useAuth = () => React.useContext(AuthContext);
+export const useCurrentUserId = () => React.useContext(AuthContext).userId;
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = React.useState<User | null>(null);
   const [ready, setReady] = React.useState(false);
+  const [resolvedId, setResolvedId] = React.useState<number | null>(null);
 
   React.useEffect(() => {
     const unsub = onAuthStateChanged(auth, (u) => { setUser(u); setReady(true); });
     return unsub;
   }, []);
 
-  return <AuthContext.Provider value={{ user, ready }}>{children}</AuthContext.Provider>;
+  React.useEffect(() => {
+    setResolvedId(null);
+    if (!user) {
+      setTokenSource(null);
+      return;
+    }
+    // every backend request asks Firebase for the token, so it is refreshed before it expires
+    setTokenSource(
+      (forceRefresh) => user.getIdToken(forceRefresh),
+      () => { signOutUser().catch((e) => console.warn("[Auth] Sign-out after expired session failed:", e)); },
+    );
+    let cancelled = false;
+    resolveUserId(user)
+      .then((id) => { if (!cancelled) setResolvedId(id); })
+      .catch((e) => console.warn("[Auth] Could not resolve backend user:", e));
+    return () => { cancelled = true; };
+  }, [user]);
+
+  const userId = user ? resolvedId : __DEV__ ? DEV_USER_ID : null;
+
+  return <AuthContext.Provider value={{ user, ready, userId }}>{children}</AuthContext.Provider>;
 }
@@ -12,6 +12,9 @@ import { doc, setDoc } from "firebase/firestore"; // firestone imports
 import { auth, db as firestore } from "../../lib/firebase";
 import db from "../../lib/db";
 import * as simpleSync from "../../lib/sync";
+import { setAuthToken, setTokenSource } from "../../lib/api";
+import { resolveUserId } from "../../lib/identity";
+import { startRealtime, stopRealtime } from "../../lib/realtime";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
 WebBrowser.maybeCompleteAuthSession();
@@ -20,6 +23,24 @@ const discovery = {
   authorizationEndpoint: "https://accounts.google.com/o/oauth2/v2/auth",
 };
 
+/**
+ * Stop syncing, sign out of Firebase and forget the saved session. Also used when the
+ * session expires and the ID token can no longer be refreshed.
+ */
+export async function signOutUser() {
+  console.log("[Auth] Logging out...");
+
+  simpleSync.stopAutoSync();
+  stopRealtime();
+  setTokenSource(null);
+
+  await signOut(auth);
+
+  await AsyncStorage.multiRemove(['authToken', 'userId', 'userEmail']);
+
+  console.log("[Auth] Logged out and sync stopped");
+}
+
 export function useGoogleSignIn() {
   const clientId = process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID!;
   // const redirectUri = AuthSession.makeRedirectUri({ useProxy: true });
@@ -105,18 +126,7 @@ export function useGoogleSignIn() {
     );
   };
 
-  const logout = async () => {
-    console.log("[Auth] Logging out...");
-    
-    simpleSync.stopAutoSync();
-    
-    await signOut(auth);
-    
-    await AsyncStorage.multiRemove(['authToken', 'userId', 'userEmail']);
-    
-    console.log("[Auth] Logged out and sync stopped");
-
-  };
+  const logout = signOutUser;
 
   const initialSync = async () => {
     try {
@@ -126,7 +136,7 @@ export function useGoogleSignIn() {
         return;
       }
 
-      console.log("[Auth] Initializing sync for user:", user.uid);
+      console.log("[Auth] Initializing sync for Firebase user:", user.uid);
 
       // 1. Initialize local database
       await db.init_db();
@@ -135,17 +145,19 @@ export function useGoogleSignIn() {
       // 2. Get Firebase ID token
       const token = await user.getIdToken();
 
-      // 3. Save auth data to storage
+      setAuthToken(token);
+
+      // 3. Find (or create) the backend user for this Firebase account
+      const userId = await resolveUserId(user);
+
+      // 4. Save auth data to storage
       await AsyncStorage.setItem('authToken', token);
-      await AsyncStorage.setItem('userId', user.uid);
+      await AsyncStorage.setItem('userId', String(userId));
       await AsyncStorage.setItem('userEmail', user.email || '');
 
-      // 4. Set up sync
-      simpleSync.setAuthToken(token);
-      
-      // Use Firebase UID as userId (your backend should handle this)
-      // If your backend expects a numeric ID, you'll need to map it
-      simpleSync.startAutoSync(user.uid);
+      // 5. Set up sync and live updates
+      simpleSync.startAutoSync(userId);
+      startRealtime(userId);
 
       console.log("[Auth] ✓ Sync started successfully");
     } catch (error) {
@@ -0,0 +1,2 @@
+// Set from the JS console to show the debug tools on the welcome screen without the secret tap
+declare var __DEBUG_UI__: boolean | undefined;
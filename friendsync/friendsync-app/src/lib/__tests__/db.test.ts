@@ -0,0 +1,131 @@
+import db, { createMemoryBackend, setBackend } from '../db';
+import { MemoryBackend } from '../dbMemory';
+import seedDummyData from '../seed';
+
+let backend: MemoryBackend;
+
+beforeEach(async () => {
+  backend = createMemoryBackend();
+  setBackend(backend);
+  await db.init_db();
+});
+
+afterAll(() => setBackend(null));
+
+describe('users', () => {
+  it('creates, reads, updates and deletes a user', async () => {
+    const id = await db.createUser({ username: 'alice', email: 'alice@example.com' });
+    expect(await db.getUserById(id)).toEqual({ userId: id, username: 'alice', email: 'alice@example.com' });
+
+    await db.updateUser(id, { email: 'a@example.com' });
+    expect((await db.getUserByUsername('alice'))?.email).toBe('a@example.com');
+
+    await db.deleteUser(id);
+    expect(await db.getUserById(id)).toBeNull();
+  });
+});
+
+describe('events', () => {
+  const event = { userId: 1, eventTitle: 'Lunch', startTime: '2030-01-01T12:00:00Z', endTime: '2030-01-01T13:00:00Z', isEvent: true };
+
+  it('queues every change in the outbox', async () => {
+    const id = await db.createEvent(event);
+    await db.updateEvent(id, { eventTitle: 'Dinner' });
+    expect((await db.getEventsForUser(1)).map((e) => e.eventTitle)).toEqual(['Dinner']);
+
+    await db.deleteEvent(id);
+    expect(await db.getEventsForUser(1)).toEqual([]);
+    expect((await db.getOutbox()).map((o) => [o.op, o.localId])).toEqual([['create', id], ['update', id], ['delete', id]]);
+  });
+
+  it('keeps a tombstone that can be restored until it is purged', async () => {
+    const id = await db.createEvent(event);
+    await db.deleteEvent(id);
+    expect((await db.getTombstones('events')).map((t) => t.id)).toEqual([id]);
+
+    await db.restoreDeleted('events', id);
+    expect(await db.getEventsForUser(1)).toHaveLength(1);
+    // the create still has to be pushed, the delete must not be
+    expect((await db.getOutbox()).map((o) => o.op)).toEqual(['create']);
+
+    await db.deleteEvent(id);
+    await db.acknowledgeTombstones('events', [id]);
+    expect(await db.purgeTombstones()).toBe(1);
+    expect(await db.getTombstones('events')).toEqual([]);
+  });
+});
+
+describe('transaction', () => {
+  it('keeps nothing a failed transaction wrote and rethrows its error', async () => {
+    const id = await db.createUser({ username: 'alice', email: 'alice@example.com' });
+    const before = JSON.stringify(await backend.snapshot());
+    const listener = jest.fn();
+    const unsubscribe = db.subscribe('*', listener);
+
+    await expect(db.transaction(async (tx) => {
+      await tx.users.create({ username: 'bob', email: 'bob@example.com' });
+      await tx.users.update(id, { email: 'changed@example.com' });
+      await tx.events.create({ userId: id, startTime: '2030-01-01T12:00:00Z' });
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    unsubscribe();
+
+    expect(JSON.stringify(await backend.snapshot())).toBe(before);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('commits all writes together and announces them afterwards', async () => {
+    const listener = jest.fn();
+    const unsubscribe = db.subscribe('users', listener);
+    const ids = await db.transaction(async (tx) => {
+      const a = await tx.users.create({ username: 'alice', email: 'alice@example.com' });
+      const b = await tx.users.create({ username: 'bob', email: 'bob@example.com' });
+      expect(await db.getUserById(a)).toBeNull();
+      expect(listener).not.toHaveBeenCalled();
+      return [a, b];
+    });
+    unsubscribe();
+
+    expect(await Promise.all(ids.map((id) => db.getUserById(id)))).toHaveLength(2);
+    expect(listener).toHaveBeenCalledWith({ table: 'users', op: 'insert' });
+  });
+
+  it('does not lose a write made while a transaction is running', async () => {
+    let release!: () => void;
+    const paused = new Promise<void>((resolve) => { release = resolve; });
+    let started!: () => void;
+    const inside = new Promise<void>((resolve) => { started = resolve; });
+    const running = db.transaction(async (tx) => {
+      started();
+      await paused;
+      await tx.users.create({ username: 'alice', email: 'alice@example.com' });
+    });
+    await inside;
+    const outside = db.createUser({ username: 'bob', email: 'bob@example.com' });
+    release();
+    await Promise.all([running, outside]);
+
+    expect(await db.getUserByUsername('alice')).not.toBeNull();
+    expect(await db.getUserByUsername('bob')).not.toBeNull();
+  });
+});
+
+describe('seedDummyData', () => {
+  it('creates users, events, friendships and rsvps', async () => {
+    const seeded = await seedDummyData({ randomize: true, randomCount: 5, randomSeed: 1 });
+
+    expect(seeded.users.map((u) => u.username)).toEqual(['alice', 'bob', 'carol']);
+    const [alice, bob] = seeded.users.map((u) => u.id);
+    expect(await db.getFriendsForUser(alice)).toContain(bob);
+    expect((await db.getEventsByIds(seeded.events.map((e) => e.id))).length).toBe(seeded.events.length);
+    expect(seeded.rsvps?.length).toBeGreaterThan(0);
+  });
+
+  it('is repeatable with the same seed', async () => {
+    const first = await seedDummyData({ randomize: true, randomCount: 5, randomSeed: 7 });
+    setBackend(createMemoryBackend());
+    await db.init_db();
+    const second = await seedDummyData({ randomize: true, randomCount: 5, randomSeed: 7 });
+    expect(second.events.map((e) => e.title)).toEqual(first.events.map((e) => e.title));
+  });
+});
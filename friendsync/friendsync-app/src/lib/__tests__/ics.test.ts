@@ -0,0 +1,125 @@
+import * as dbModule from '../db';
+import db, { createMemoryBackend, setBackend } from '../db';
+import { exportCalendar, formatCalendar, importCalendar, parseCalendar } from '../ics';
+import { formatLocalTime } from '../recurrence';
+
+const ALICE = 1;
+
+beforeEach(async () => {
+  setBackend(createMemoryBackend());
+  await db.init_db();
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+afterAll(() => setBackend(null));
+
+// An .ics file with the given VEVENT bodies
+const calendar = (...events: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flatMap((e) => ['BEGIN:VEVENT', e.trim(), 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+
+// Pretend the device is in `timeZone`
+const inTimeZone = (timeZone: string) => {
+  const resolved = Intl.DateTimeFormat.prototype.resolvedOptions;
+  jest.spyOn(Intl.DateTimeFormat.prototype, 'resolvedOptions').mockImplementation(function (this: Intl.DateTimeFormat) {
+    return { ...resolved.call(this), timeZone };
+  });
+};
+
+const event = (fields: Partial<dbModule.Event>): dbModule.Event => ({
+  eventId: 1, serverId: null, userId: ALICE, eventTitle: 'Lunch', description: null, startTime: '2030-01-15T12:00:00', endTime: '2030-01-15T13:00:00',
+  date: '2030-01-15', isEvent: true, recurring: 0, rrule: null, exdates: [], uid: null, updatedAt: null, version: 0, ...fields,
+} as dbModule.Event);
+
+describe('formatCalendar', () => {
+  it('describes the zone its times are written in with a VTIMEZONE', () => {
+    inTimeZone('Europe/Berlin');
+    const lines = formatCalendar([event({})]).split('\r\n');
+
+    expect(lines).toEqual(expect.arrayContaining([
+      'TZID:Europe/Berlin',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0200',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+      'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+    ]));
+    // the event's own times are wall times in that zone
+    expect(lines.find((l) => l.startsWith('DTSTART;'))).toMatch(/^DTSTART;TZID=Europe\/Berlin:20300115T\d{6}$/);
+    expect(parseCalendar(lines.join('\r\n'))[0].start).toEqual(new Date('2030-01-15T12:00:00'));
+  });
+
+  it('gives a zone without daylight saving one fixed offset', () => {
+    inTimeZone('Asia/Kolkata');
+    const text = formatCalendar([event({})]);
+
+    expect(text).toContain('BEGIN:STANDARD\r\nDTSTART:19700101T000000\r\nTZOFFSETFROM:+0530\r\nTZOFFSETTO:+0530\r\nEND:STANDARD');
+    expect(text).not.toContain('BEGIN:DAYLIGHT');
+  });
+
+  it('folds long lines at 75 octets without splitting a character', () => {
+    const description = `Bring snacks; chairs, and games.\n${'Smörgåsbord 🍰 '.repeat(12)}`;
+    const text = formatCalendar([event({ description })]);
+
+    text.split('\r\n').forEach((line) => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+    expect(text).toMatch(/\r\n /);
+    expect(parseCalendar(text)[0].description).toBe(description);
+  });
+});
+
+describe('importCalendar', () => {
+  it('converts times in another zone to local time', async () => {
+    await importCalendar(ALICE, calendar('UID:call\r\nDTSTART;TZID=America/New_York:20300115T090000\r\nDURATION:PT30M\r\nSUMMARY:Call'));
+
+    const [call] = await db.getEventsForUser(ALICE);
+    // 9:00 in New York is 14:00 UTC in winter
+    expect(new Date(call.startTime).toISOString()).toBe('2030-01-15T14:00:00.000Z');
+    expect(new Date(call.endTime!).toISOString()).toBe('2030-01-15T14:30:00.000Z');
+    expect(call.startTime).toBe(formatLocalTime(new Date('2030-01-15T14:00:00Z')));
+  });
+
+  it('reads back an exported calendar as it was', async () => {
+    inTimeZone('Europe/Berlin');
+    await db.createEvent({ userId: ALICE, eventTitle: 'Standup, daily', description: 'Room 3;\nbring notes', startTime: '2030-03-25T09:00:00', endTime: '2030-03-25T09:15:00', rrule: 'FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20300601T000000Z', exdates: [new Date('2030-03-27T09:00:00').toISOString()] });
+    await db.addFreeTime({ userId: ALICE, startTime: '2030-04-02T18:00:00', endTime: '2030-04-02T20:00:00' });
+    const fields = (e: dbModule.Event) => [e.eventTitle, e.description, e.startTime, e.endTime, e.isEvent, e.rrule, e.exdates];
+    const before = (await db.getEventsForUser(ALICE)).map(fields);
+    const text = await exportCalendar(ALICE);
+
+    setBackend(createMemoryBackend());
+    await db.init_db();
+    expect(await importCalendar(ALICE, text)).toMatchObject({ created: 2 });
+    expect((await db.getEventsForUser(ALICE)).map(fields)).toEqual(before);
+    // the events carry the UIDs they were exported with
+    expect(await importCalendar(ALICE, text)).toMatchObject({ created: 0, unchanged: 2 });
+  });
+
+  it('updates the events it imported before, matched by UID', async () => {
+    const lunch = (summary: string) => calendar(`UID:lunch@example.com\r\nDTSTART:20300115T120000Z\r\nSUMMARY:${summary}`);
+    expect(await importCalendar(ALICE, lunch('Lunch'))).toMatchObject({ created: 1 });
+    expect(await importCalendar(ALICE, lunch('Dinner'))).toMatchObject({ created: 0, updated: 1 });
+
+    expect((await db.getEventsForUser(ALICE)).map((e) => e.eventTitle)).toEqual(['Dinner']);
+  });
+
+  it('deletes an imported event the file now cancels', async () => {
+    const lunch = 'UID:lunch@example.com\r\nDTSTART:20300115T120000Z\r\nSUMMARY:Lunch';
+    await importCalendar(ALICE, calendar(lunch));
+    expect(await importCalendar(ALICE, calendar(`${lunch}\r\nSTATUS:CANCELLED`))).toMatchObject({ deleted: 1, skipped: 0 });
+
+    expect(await db.getEventsForUser(ALICE)).toEqual([]);
+    // never seen before, so there is nothing to remove
+    expect(await importCalendar(ALICE, calendar('UID:other\r\nDTSTART:20300115T120000Z\r\nSTATUS:CANCELLED'))).toMatchObject({ deleted: 0, skipped: 1 });
+  });
+
+  it('keeps nothing of a file that fails halfway', async () => {
+    const create = dbModule.createEventIn;
+    jest.spyOn(dbModule, 'createEventIn')
+      .mockImplementationOnce(create)
+      .mockImplementationOnce(() => Promise.reject(new Error('disk full')));
+    const text = calendar('UID:a\r\nDTSTART:20300115T120000Z\r\nSUMMARY:A', 'UID:b\r\nDTSTART:20300116T120000Z\r\nSUMMARY:B');
+
+    await expect(importCalendar(ALICE, text)).rejects.toThrow('disk full');
+    expect(await db.getEventsForUser(ALICE)).toEqual([]);
+    expect(await db.getOutbox()).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import api from '../api';
+import db, { createMemoryBackend, setBackend } from '../db';
+import { createMockBackend, defaultFixtures, MockBackend } from '../mockBackend';
+import { startRealtime, stopRealtime } from '../realtime';
+import { startAutoSync, stopAutoSync } from '../sync';
+import { getSyncStatus, resetSyncStatus } from '../syncStatus';
+
+// alice (1) is friends with bob (2) and invited to his event 3
+const ALICE = 1;
+const ALICE_TOKEN = 'mock-token-1-0';
+const BOB_TOKEN = 'mock-token-2-0';
+
+const MINUTE = 60 * 1000;
+
+let mock: MockBackend;
+// when each socket was opened (fake time)
+let opened: number[];
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  // no jitter, so reconnect delays are exact
+  jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  setBackend(createMemoryBackend());
+  await db.init_db();
+  mock = createMockBackend(defaultFixtures());
+  global.fetch = mock.fetch;
+  opened = [];
+  global.WebSocket = jest.fn((url: string) => {
+    opened.push(Date.now());
+    return new mock.WebSocket(url);
+  }) as unknown as typeof WebSocket;
+  api.setTokenSource(null);
+  api.setAuthToken(ALICE_TOKEN);
+});
+
+afterEach(() => {
+  stopRealtime();
+  stopAutoSync();
+  resetSyncStatus();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+afterAll(() => setBackend(null));
+
+// Move the clock by `ms`, plus a few ms for sockets, requests and the db to catch up (the mock
+// socket delivers on a timeout)
+const advance = (ms = 0) => jest.advanceTimersByTimeAsync(ms + 10);
+
+async function goLive() {
+  startAutoSync(ALICE);
+  startRealtime(ALICE);
+  await advance();
+  expect(getSyncStatus().live).toBe(true);
+}
+
+async function localEvent(serverId: number) {
+  const [own, shared] = await Promise.all([db.getEventsForUser(ALICE), db.getEventsForUser(2)]);
+  return [...own, ...shared].find((e) => e.serverId === serverId) ?? null;
+}
+
+// Drop every socket without staying offline
+function dropConnection() {
+  mock.setOffline(true);
+  mock.setOffline(false);
+}
+
+// Minutes until the next scheduled sync
+const nextSyncIn = () => Math.round((Date.parse(getSyncStatus().nextSyncAt!) - Date.now()) / MINUTE);
+
+describe('pushed changes', () => {
+  it('stores a change to the user\'s own feed', async () => {
+    await goLive();
+    // alice edits on another device
+    mock.handle({ method: 'PUT', path: '/api/events/1', body: { eventTitle: 'Tea' }, authorization: `Bearer ${ALICE_TOKEN}` });
+    await advance();
+
+    expect((await localEvent(1))?.eventTitle).toBe('Tea');
+  });
+
+  it('stores changes to events shared with the user and their deletion', async () => {
+    await goLive();
+    mock.handle({ method: 'PUT', path: '/api/events/3', body: { eventTitle: 'Poker' }, authorization: `Bearer ${BOB_TOKEN}` });
+    await advance();
+    expect((await localEvent(3))?.eventTitle).toBe('Poker');
+
+    mock.handle({ method: 'DELETE', path: '/api/events/3', authorization: `Bearer ${BOB_TOKEN}` });
+    await advance();
+    expect(await localEvent(3)).toBeNull();
+  });
+});
+
+describe('reconnecting', () => {
+  it('backs off from 1 s, doubling up to a minute, while the backend cannot be reached', async () => {
+    await goLive();
+    mock.setOffline(true);
+    await advance(5 * MINUTE);
+
+    // in seconds; the first gap includes the time the first socket was up
+    const gaps = opened.slice(1).map((t, i) => Math.round((t - opened[i]) / 1000));
+    expect(gaps.slice(1, 9)).toEqual([2, 4, 8, 16, 32, 60, 60, 60]);
+    expect(getSyncStatus().live).toBe(false);
+  });
+
+  it('polls at the normal interval while the socket is down and catches up once it is back', async () => {
+    await goLive();
+    // the socket carries the changes, polling is only a safety net
+    expect(nextSyncIn()).toBe(30);
+
+    dropConnection();
+    await advance();
+    expect(getSyncStatus().live).toBe(false);
+    expect(nextSyncIn()).toBe(5);
+
+    // a change made while disconnected is never pushed
+    mock.handle({ method: 'PUT', path: '/api/events/1', body: { eventTitle: 'Tea' }, authorization: `Bearer ${ALICE_TOKEN}` });
+    await advance(1000);
+    expect(opened).toHaveLength(2);
+    expect(getSyncStatus().live).toBe(true);
+    // the sync run on reconnect fetched it
+    expect((await localEvent(1))?.eventTitle).toBe('Tea');
+  });
+
+  it('starts over at 1 s after a successful reconnect', async () => {
+    await goLive();
+    dropConnection();
+    await advance(1000);
+    dropConnection();
+    await advance(1000);
+
+    expect(opened).toHaveLength(3);
+    expect(getSyncStatus().live).toBe(true);
+  });
+});
+
+describe('refused tokens', () => {
+  it('keeps polling and retries with backoff after AUTH_FAILED', async () => {
+    mock.revokeToken(ALICE_TOKEN);
+    startAutoSync(ALICE);
+    startRealtime(ALICE);
+    await advance();
+
+    expect(console.warn).toHaveBeenCalledWith('Realtime: token refused');
+    expect(getSyncStatus().live).toBe(false);
+
+    // signed in again with a fresh token
+    api.setAuthToken('mock-token-1-1');
+    await advance(1000);
+    expect(opened).toHaveLength(2);
+    expect(getSyncStatus().live).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+import { Event, Recurrence } from '../dbTypes';
+import { expandEvent, expandEvents, formatIcsDate, formatRule, parseRule, ruleOf, splitSeries } from '../recurrence';
+
+// Times are local without a zone, the way the app stores them. 2030-01-07 is a Monday.
+const event = (fields: Partial<Event>): Event => ({
+  eventId: 1, serverId: null, userId: 1, eventTitle: 'Standup', description: null, startTime: '2030-01-07T09:00:00', endTime: '2030-01-07T09:15:00',
+  date: '2030-01-07', isEvent: true, recurring: Recurrence.None, rrule: null, exdates: [], uid: null, updatedAt: null, version: 0, ...fields,
+} as Event);
+
+const starts = (e: Event, from = '2030-01-01T00:00:00', to = '2031-01-01T00:00:00') => expandEvent(e, from, to).map((o) => o.startTime);
+
+// An occurrence's recurrenceId: its start as UTC ISO
+const idOf = (localTime: string) => new Date(localTime).toISOString();
+
+describe('parseRule', () => {
+  it('reads every supported part and writes it back the same', () => {
+    const text = 'FREQ=MONTHLY;INTERVAL=2;BYDAY=MO,-1FR;COUNT=6';
+    expect(parseRule(`RRULE:${text}`)).toEqual({ freq: 'MONTHLY', interval: 2, byDay: [{ day: 'MO' }, { day: 'FR', nth: -1 }], count: 6 });
+    expect(formatRule(parseRule(text)!)).toBe(text);
+  });
+
+  it('takes a bare UNTIL date to include that whole day', () => {
+    expect(parseRule('FREQ=DAILY;UNTIL=20300109')?.until).toBe(new Date(2030, 0, 9, 23, 59, 59).toISOString());
+    expect(parseRule('FREQ=DAILY;UNTIL=20300109T120000Z')?.until).toBe('2030-01-09T12:00:00.000Z');
+  });
+
+  it('gives null for a rule without a frequency it knows', () => {
+    expect(parseRule('FREQ=HOURLY;COUNT=3')).toBeNull();
+    expect(parseRule('INTERVAL=2')).toBeNull();
+    expect(parseRule('')).toBeNull();
+  });
+
+  it('falls back to the legacy recurring code', () => {
+    expect(ruleOf({ rrule: null, recurring: Recurrence.Weekly })).toEqual({ freq: 'WEEKLY', interval: 1 });
+    expect(ruleOf({ rrule: 'FREQ=DAILY', recurring: Recurrence.Weekly })).toEqual({ freq: 'DAILY', interval: 1 });
+    expect(ruleOf({ rrule: null, recurring: Recurrence.None })).toBeNull();
+  });
+});
+
+describe('expandEvent', () => {
+  it('gives an event that does not repeat as its own occurrence', () => {
+    expect(expandEvent(event({}), '2030-01-01T00:00:00', '2030-02-01T00:00:00')).toEqual([{ ...event({}), recurrenceId: null }]);
+    expect(starts(event({}), '2030-01-08T00:00:00')).toEqual([]);
+  });
+
+  it('stops after COUNT occurrences', () => {
+    expect(starts(event({ rrule: 'FREQ=DAILY;COUNT=3' }))).toEqual(['2030-01-07T09:00:00', '2030-01-08T09:00:00', '2030-01-09T09:00:00']);
+  });
+
+  it('stops at UNTIL', () => {
+    expect(starts(event({ rrule: 'FREQ=WEEKLY;UNTIL=20300121' }))).toEqual(['2030-01-07T09:00:00', '2030-01-14T09:00:00', '2030-01-21T09:00:00']);
+  });
+
+  it('repeats weekly on the BYDAY weekdays, with INTERVAL weeks between', () => {
+    expect(starts(event({ rrule: 'FREQ=WEEKLY;BYDAY=MO,WE' }), '2030-01-01T00:00:00', '2030-01-17T00:00:00'))
+      .toEqual(['2030-01-07T09:00:00', '2030-01-09T09:00:00', '2030-01-14T09:00:00', '2030-01-16T09:00:00']);
+    expect(starts(event({ rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=FR,TU;COUNT=4' })))
+      .toEqual(['2030-01-08T09:00:00', '2030-01-11T09:00:00', '2030-01-22T09:00:00', '2030-01-25T09:00:00']);
+  });
+
+  it('skips the months that have no 31st', () => {
+    const payday = event({ startTime: '2030-01-31T09:00:00', endTime: null, date: '2030-01-31', rrule: 'FREQ=MONTHLY;COUNT=4' });
+    expect(starts(payday)).toEqual(['2030-01-31T09:00:00', '2030-03-31T09:00:00', '2030-05-31T09:00:00', '2030-07-31T09:00:00']);
+  });
+
+  it('picks the nth weekday of the month', () => {
+    expect(starts(event({ rrule: 'FREQ=MONTHLY;BYDAY=-1FR;COUNT=3' }))).toEqual(['2030-01-25T09:00:00', '2030-02-22T09:00:00', '2030-03-29T09:00:00']);
+  });
+
+  it('leaves out EXDATEs, which still count towards COUNT', () => {
+    const standup = event({ rrule: 'FREQ=DAILY;COUNT=3', exdates: [idOf('2030-01-08T09:00:00')] });
+    expect(starts(standup)).toEqual(['2030-01-07T09:00:00', '2030-01-09T09:00:00']);
+  });
+
+  it('gives each occurrence its own times and recurrenceId', () => {
+    const [, second] = expandEvent(event({ rrule: 'FREQ=DAILY' }), '2030-01-01T00:00:00', '2030-01-09T00:00:00');
+    expect(second).toMatchObject({ startTime: '2030-01-08T09:00:00', endTime: '2030-01-08T09:15:00', date: '2030-01-08', recurrenceId: idOf('2030-01-08T09:00:00') });
+  });
+
+  it('starts near a range far from the first occurrence', () => {
+    expect(starts(event({ rrule: 'FREQ=DAILY' }), '2080-01-07T00:00:00', '2080-01-09T00:00:00')).toEqual(['2080-01-07T09:00:00', '2080-01-08T09:00:00']);
+  });
+
+  it('gives up on a rule that never matches instead of hanging', () => {
+    // no month has a sixth Friday
+    expect(starts(event({ rrule: 'FREQ=MONTHLY;BYDAY=6FR' }))).toEqual([]);
+  });
+
+  it('orders the occurrences of several events by start time', () => {
+    const lunch = event({ eventId: 2, startTime: '2030-01-07T12:00:00', endTime: null, rrule: 'FREQ=DAILY;COUNT=2' });
+    expect(expandEvents([lunch, event({ rrule: 'FREQ=DAILY;COUNT=2' })], '2030-01-01T00:00:00', '2030-02-01T00:00:00').map((o) => [o.eventId, o.startTime])).toEqual([
+      [1, '2030-01-07T09:00:00'], [2, '2030-01-07T12:00:00'], [1, '2030-01-08T09:00:00'], [2, '2030-01-08T12:00:00'],
+    ]);
+  });
+});
+
+describe('splitSeries', () => {
+  const third = idOf('2030-01-09T09:00:00');
+
+  it('ends the head just before the split and carries the rest of COUNT to the tail', () => {
+    const standup = event({ rrule: 'FREQ=DAILY;COUNT=5', exdates: [idOf('2030-01-08T09:00:00'), idOf('2030-01-10T09:00:00')] });
+    const { head, tail } = splitSeries(standup, third);
+
+    expect(head).toEqual({ rrule: `FREQ=DAILY;UNTIL=${formatIcsDate(new Date(Date.parse(third) - 1000))}`, exdates: [idOf('2030-01-08T09:00:00')] });
+    expect(tail).toEqual({ rrule: 'FREQ=DAILY;COUNT=3', exdates: [idOf('2030-01-10T09:00:00')] });
+    // together they still give the occurrences of the whole series
+    const parts = [{ ...standup, ...head }, { ...standup, ...tail, startTime: '2030-01-09T09:00:00' }].flatMap((e) => starts(e));
+    expect(parts).toEqual(starts(standup));
+  });
+
+  it('keeps an earlier UNTIL and the rest of the rule', () => {
+    const until = '20300108T120000Z';
+    const { head, tail } = splitSeries(event({ rrule: `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=${until}` }), third);
+    expect(head?.rrule).toBe(`FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=${until}`);
+    expect(tail.rrule).toBe(`FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=${until}`);
+  });
+
+  it('has no head when split at the first occurrence', () => {
+    const { head, tail } = splitSeries(event({ rrule: 'FREQ=DAILY;COUNT=5' }), idOf('2030-01-07T09:00:00'));
+    expect(head).toBeNull();
+    expect(tail.rrule).toBe('FREQ=DAILY;COUNT=5');
+  });
+});
@@ -0,0 +1,215 @@
+import api from '../api';
+import db, { createMemoryBackend, setBackend } from '../db';
+import { createMockBackend, defaultFixtures, MockBackend } from '../mockBackend';
+import { pushOutbox, syncFromBackend } from '../sync';
+
+// alice (1) is friends with bob (2) and invited to his event 3
+const ALICE = 1;
+const ALICE_TOKEN = 'mock-token-1-0';
+const BOB_TOKEN = 'mock-token-2-0';
+
+let mock: MockBackend;
+
+beforeEach(async () => {
+  setBackend(createMemoryBackend());
+  await db.init_db();
+  mock = createMockBackend(defaultFixtures());
+  global.fetch = mock.fetch;
+  api.setTokenSource(null);
+  api.setAuthToken(ALICE_TOKEN);
+  // sync narrates every run
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+afterAll(() => setBackend(null));
+
+// The local copy of a backend event
+async function localEvent(serverId: number) {
+  const [own, shared] = await Promise.all([db.getEventsForUser(ALICE), db.getEventsForUser(2)]);
+  return [...own, ...shared].find((e) => e.serverId === serverId) ?? null;
+}
+
+// A write made on the backend by someone else, e.g. alice on another device
+function remoteUpdate(token: string, path: string, body: object) {
+  const res = mock.handle({ method: 'PUT', path, body, authorization: `Bearer ${token}` });
+  expect(res.status).toBe(200);
+  return res.body;
+}
+
+describe('syncFromBackend', () => {
+  it('stores the user\'s rows and the events shared with them', async () => {
+    expect(await syncFromBackend(ALICE)).toEqual([]);
+
+    expect((await localEvent(1))?.eventTitle).toBe('Coffee');
+    // bob's invitation
+    expect((await localEvent(3))?.eventTitle).toBe('Board games');
+    expect(await db.getFriendsForUser(ALICE)).toEqual([2]);
+  });
+
+  it('waits with an rsvp until its event is stored', async () => {
+    // the invitation arrives, bob's event does not
+    mock.failNext('GET', '/events/shared', 500);
+    await syncFromBackend(ALICE);
+    expect(await localEvent(3)).toBeNull();
+    expect(await db.getRsvpsForUser(ALICE)).toEqual([]);
+
+    expect(await syncFromBackend(ALICE)).toEqual([]);
+    const [rsvp] = await db.getRsvpsForUser(ALICE);
+    expect(rsvp.eventId).toBe((await localEvent(3))?.eventId);
+  });
+
+  it('leaves local data alone while offline', async () => {
+    await syncFromBackend(ALICE);
+    const id = await db.createEvent({ userId: ALICE, startTime: '2030-01-01T12:00:00Z', eventTitle: 'Later' });
+    mock.setOffline(true);
+
+    const errors = await syncFromBackend(ALICE);
+    expect(errors.length).toBeGreaterThan(0);
+    expect(errors.every((e) => e.status === null)).toBe(true);
+    expect((await db.getOutbox()).map((o) => o.localId)).toEqual([id]);
+    expect((await localEvent(1))?.eventTitle).toBe('Coffee');
+
+    mock.setOffline(false);
+    expect(await syncFromBackend(ALICE)).toEqual([]);
+    expect(await db.getOutbox()).toEqual([]);
+    expect(mock.snapshot().events.some((e) => e.eventTitle === 'Later')).toBe(true);
+  });
+});
+
+describe('pushOutbox', () => {
+  beforeEach(async () => {
+    await syncFromBackend(ALICE);
+  });
+
+  it('creates rows on the backend and remembers their server ids', async () => {
+    const id = await db.createEvent({ userId: ALICE, startTime: '2030-01-01T12:00:00Z', eventTitle: 'Picnic' });
+
+    expect(await pushOutbox()).toBeNull();
+    const serverId = await db.getServerId('events', id);
+    expect(mock.snapshot().events.find((e) => e.eventId === serverId)?.eventTitle).toBe('Picnic');
+    expect(await db.getOutbox()).toEqual([]);
+  });
+
+  it('keeps an entry that failed with a server error and pushes it next time', async () => {
+    await db.createEvent({ userId: ALICE, startTime: '2030-01-01T12:00:00Z', eventTitle: 'Picnic' });
+    mock.failNext('POST', '/events', 500);
+
+    expect((await pushOutbox())?.status).toBe(500);
+    const [entry] = await db.getOutbox();
+    expect(entry.attempts).toBe(1);
+
+    expect(await pushOutbox()).toBeNull();
+    expect(mock.snapshot().events.filter((e) => e.eventTitle === 'Picnic')).toHaveLength(1);
+  });
+
+  it('drops an entry the backend rejects outright', async () => {
+    await db.createEvent({ userId: ALICE, startTime: '2030-01-01T12:00:00Z', eventTitle: 'Picnic' });
+    mock.failNext('POST', '/events', 400);
+
+    expect(await pushOutbox()).toBeNull();
+    expect(await db.getOutbox()).toEqual([]);
+    expect(mock.snapshot().events.some((e) => e.eventTitle === 'Picnic')).toBe(false);
+  });
+
+  it('merges an update with a different field changed on the backend (409)', async () => {
+    const coffee = (await localEvent(1))!;
+    await db.updateEvent(coffee.eventId, { eventTitle: 'Tea' });
+    remoteUpdate(ALICE_TOKEN, '/api/events/1', { description: 'Moved inside', version: 1 });
+
+    expect(await pushOutbox()).toBeNull();
+    const remote = mock.snapshot().events.find((e) => e.eventId === 1)!;
+    expect([remote.eventTitle, remote.description]).toEqual(['Tea', 'Moved inside']);
+    expect(mock.requests.some((r) => r.method === 'PUT' && r.status === 409)).toBe(true);
+    expect(await db.getConflicts()).toEqual([]);
+  });
+
+  it('records a conflict when both sides changed the same field (409)', async () => {
+    const coffee = (await localEvent(1))!;
+    await db.updateEvent(coffee.eventId, { eventTitle: 'Tea' });
+    remoteUpdate(ALICE_TOKEN, '/api/events/1', { eventTitle: 'Espresso', version: 1 });
+
+    await pushOutbox();
+    const [conflict] = await db.getConflicts();
+    expect(conflict).toMatchObject({ table: 'events', localId: coffee.eventId, fields: ['eventTitle'] });
+    // merge keeps the backend's value until the user picks a side
+    expect((await localEvent(1))?.eventTitle).toBe('Espresso');
+  });
+
+  it('cannot delete someone else\'s event on the backend (403)', async () => {
+    const boardGames = (await localEvent(3))!;
+    await db.deleteEvent(boardGames.eventId);
+
+    expect(await pushOutbox()).toBeNull();
+    expect(mock.requests.find((r) => r.method === 'DELETE')?.status).toBe(403);
+    expect(mock.snapshot().events.some((e) => e.eventId === 3)).toBe(true);
+    expect(await db.getOutbox()).toEqual([]);
+  });
+});
+
+describe('mock backend ownership', () => {
+  const as = (token: string, method: string, path: string, body?: object) =>
+    mock.handle({ method, path, body, authorization: `Bearer ${token}` }).status;
+
+  it('lets only the owner change or delete an event', () => {
+    expect(as(BOB_TOKEN, 'PUT', '/api/events/1', { eventTitle: 'Mine now' })).toBe(403);
+    expect(as(BOB_TOKEN, 'DELETE', '/api/events/1')).toBe(403);
+    expect(as(ALICE_TOKEN, 'PUT', '/api/events/1', { eventTitle: 'Tea' })).toBe(200);
+    expect(as(ALICE_TOKEN, 'DELETE', '/api/events/1')).toBe(204);
+  });
+
+  it('lets only the two users of a friendship change or end it', () => {
+    // carol (3) is not part of alice and bob's friendship
+    expect(as('mock-token-3-0', 'DELETE', '/api/friends/1')).toBe(403);
+    expect(as('some-other-token', 'PUT', '/api/friends/1', { status: 'accepted' })).toBe(403);
+    expect(as(BOB_TOKEN, 'DELETE', '/api/friends/1')).toBe(204);
+  });
+
+  it('lets only the invitee or the event owner answer or withdraw an invitation', () => {
+    // rsvp 1 invites alice to bob's event 3; carol (3) is neither
+    expect(as('mock-token-3-0', 'PUT', '/api/rsvps/1', { status: 'accepted' })).toBe(403);
+    expect(as('mock-token-3-0', 'DELETE', '/api/rsvps/1')).toBe(403);
+    expect(as(ALICE_TOKEN, 'PUT', '/api/rsvps/1', { status: 'accepted' })).toBe(200);
+    expect(as(BOB_TOKEN, 'DELETE', '/api/rsvps/1')).toBe(204);
+  });
+
+  it('knows the user of a Firebase ID token by its uid', () => {
+    const created = mock.handle({ method: 'POST', path: '/api/users', body: { username: 'dana', firebaseUid: 'fb-dana' }, authorization: `Bearer ${ALICE_TOKEN}` });
+    const encode = (part: object) => btoa(JSON.stringify(part)).replace(/=+$/, '');
+    const idToken = `${encode({ alg: 'RS256' })}.${encode({ user_id: 'fb-dana' })}.signature`;
+    const event = mock.handle({ method: 'POST', path: '/api/events', body: { userId: created.body.userId, startTime: '2030-01-01T12:00:00Z' }, authorization: `Bearer ${idToken}` });
+
+    expect(as(ALICE_TOKEN, 'DELETE', `/api/events/${event.body.eventId}`)).toBe(403);
+    expect(as(idToken, 'DELETE', `/api/events/${event.body.eventId}`)).toBe(204);
+  });
+});
+
+describe('expired tokens', () => {
+  it('retries with a refreshed token when the backend refuses the current one', async () => {
+    let token = ALICE_TOKEN;
+    const expired = jest.fn();
+    api.setTokenSource(async (forceRefresh) => {
+      if (forceRefresh) token = 'mock-token-1-1';
+      return token;
+    }, expired);
+    mock.revokeToken(ALICE_TOKEN);
+
+    expect(await syncFromBackend(ALICE)).toEqual([]);
+    expect(token).toBe('mock-token-1-1');
+    expect(expired).not.toHaveBeenCalled();
+  });
+
+  it('ends the session once when the refreshed token is refused too', async () => {
+    const expired = jest.fn();
+    api.setTokenSource(async () => ALICE_TOKEN, expired);
+    mock.revokeToken(ALICE_TOKEN);
+
+    const errors = await syncFromBackend(ALICE);
+    expect(errors.some((e) => e.status === 401)).toBe(true);
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(await api.getAuthToken()).toBeNull();
+  });
+});
@@ -0,0 +1,308 @@
+/*
+  api.ts — Typed client for the FriendSync REST backend
+
+  Every request goes to `<backend>/api/...` with the current ID token, where the backend is the
+  one of the environment selected in config.ts. A request the backend
+  answers with an error status throws an ApiError carrying that `status` and the parsed response
+  `body`; one that never got an answer rejects with fetch's own error (no status).
+
+  Tokens: `setTokenSource()` (Firebase's user.getIdToken) is asked before every request, so the
+  token is refreshed before it expires. A 401 is retried once with a forced refresh; if that fails
+  too, the session-expired handler signs the user out. `setAuthToken()` sets a fixed token instead.
+
+  Feeds (a user's events, friends, rsvps and notifications) take an optional `since` cursor. A
+  backend with delta support then answers with a `Delta`; otherwise it sends the complete list.
+
+  The Api* types describe rows as the backend sends them; sync.ts maps them to the db.ts types.
+  Ids are named after the table (eventId, rsvpId, ...), or just `id` on older endpoints.
+*/
+
+import type { FriendStatus, RsvpStatus } from './dbTypes';
+import { getApiBaseUrl } from './config';
+
+// ---------- Types ----------
+
+export type ApiUser = {
+  id?: number;
+  userId?: number;
+  username: string;
+  email: string | null;
+  firebaseUid?: string | null;
+};
+
+export type NewApiUser = { username: string; email: string | null; firebaseUid?: string; password?: string };
+
+export type LoginRequest = { username: string; password: string };
+
+export type LoginResponse = { user?: ApiUser; token?: string; message?: string };
+
+export type ApiFriend = {
+  id?: number;
+  friendRowId?: number;
+  userId: number;
+  friendId: number;
+  status: FriendStatus;
+};
+
+export type ApiEvent = {
+  id?: number;
+  eventId?: number;
+  userId: number;
+  eventTitle?: string | null;
+  // older endpoints name it title
+  title?: string | null;
+  description?: string | null;
+  startTime: string;
+  endTime?: string | null;
+  date?: string | null;
+  isEvent?: boolean | number;
+  recurring?: number | null;
+  // iCalendar RRULE value and removed occurrences (recurrence.ts)
+  rrule?: string | null;
+  exdates?: string[] | null;
+  // iCalendar UID of an imported event
+  uid?: string | null;
+  updatedAt?: string | null;
+  version?: number | null;
+};
+
+export type ApiRsvp = {
+  id?: number;
+  rsvpId?: number;
+  eventId: number;
+  eventOwnerId: number;
+  inviteRecipientId: number;
+  status: RsvpStatus;
+  createdAt?: string | null;
+  updatedAt?: string | null;
+  version?: number | null;
+};
+
+// Count of rsvps per status for one event
+export type RsvpSummary = { [status: string]: number };
+
+export type ApiNotification = {
+  id?: number;
+  notificationId?: number;
+  userId: number;
+  notifMsg: string;
+  notifType?: string;
+  createdAt?: string;
+};
+
+export type ApiUserPrefs = {
+  userId: number;
+  theme?: number;
+  notificationEnabled?: number;
+  colorScheme?: number;
+  // 0 hides the user's free time from friends
+  shareFreeTime?: number;
+  updatedAt?: string | null;
+  version?: number | null;
+};
+
+// Rows changed since a cursor, the ids deleted since then, and the cursor for the next pull
+export type Delta<T> = { changed: T[]; deleted: number[]; cursor: string | null };
+
+export type Feed<T> = T[] | Delta<T>;
+
+// Request bodies are plain field maps; update bodies may carry the `version` they were based on
+export type Fields = { [key: string]: any };
+
+// Thrown for a response with an error status
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly body: any) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// ---------- Auth tokens ----------
+
+// Hands out ID tokens (Firebase's user.getIdToken): its cached token, refreshed shortly before it
+// expires, or a new one when `forceRefresh` is set
+export type TokenSource = (forceRefresh: boolean) => Promise<string>;
+
+let authToken: string | null = null;
+let tokenSource: TokenSource | null = null;
+let onSessionExpired: (() => void) | null = null;
+
+/**
+ * Set the auth token for API requests
+ */
+export function setAuthToken(token: string) {
+  authToken = token;
+}
+
+/**
+ * Ask `source` for the token before every request instead of using a fixed one. A 401 is retried
+ * once with a refreshed token; if refreshing fails or the backend refuses the new token too,
+ * `expired` is called (once) to sign the user out. Pass null on sign-out.
+ */
+export function setTokenSource(source: TokenSource | null, expired?: () => void) {
+  tokenSource = source;
+  onSessionExpired = source ? expired ?? null : null;
+}
+
+function sessionExpired() {
+  const handler = onSessionExpired;
+  tokenSource = null;
+  onSessionExpired = null;
+  authToken = null;
+  console.warn('Session expired, signing out');
+  handler?.();
+}
+
+async function currentToken(forceRefresh: boolean): Promise<string | null> {
+  if (tokenSource) authToken = await tokenSource(forceRefresh);
+  return authToken;
+}
+
+/**
+ * The current token, for connections that cannot go through request() (realtime.ts)
+ */
+export function getAuthToken(): Promise<string | null> {
+  return currentToken(false);
+}
+
+// Firebase fails a refresh with this code when it simply could not reach its servers
+const isOfflineRefresh = (error: any) => error?.code === 'auth/network-request-failed';
+
+// ---------- Requests ----------
+
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * fetch() against the backend with the current token, retrying once with a refreshed token on 401
+ */
+async function authorizedFetch(path: string, init: RequestInit): Promise<Response> {
+  const send = (token: string | null) =>
+    fetch(`${getApiBaseUrl()}/api${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+  const response = await send(await currentToken(false));
+  if (response.status !== 401 || !tokenSource) return response;
+
+  let token: string | null;
+  try {
+    token = await currentToken(true);
+  } catch (error) {
+    // no network is not a reason to sign out; the request fails and is retried later
+    if (isOfflineRefresh(error)) throw error;
+    sessionExpired();
+    return response;
+  }
+  const retried = await send(token);
+  if (retried.status === 401) sessionExpired();
+  return retried;
+}
+
+/**
+ * Send one request. Failed requests throw an ApiError carrying the HTTP `status` and the parsed
+ * response `body`, if there was one.
+ */
+async function request<T>(method: Method, path: string, body?: unknown): Promise<T> {
+  const response = await authorizedFetch(path, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(`${method} ${path} failed: ${response.status}`, response.status, body);
+  }
+
+  // deletes (and some updates) come back without a body
+  const text = await response.text();
+  return text ? JSON.parse(text) : (null as T);
+}
+
+const withSince = (path: string, since?: string | null) => (since ? `${path}?since=${encodeURIComponent(since)}` : path);
+
+// A user's feed under `path`
+const feed = <T>(path: string) => (userId: number, since?: string | null) => request<Feed<T>>('GET', withSince(`${path}/${userId}`, since));
+
+// Rows the app writes: `path` for creates, `path/:id` for everything else
+export type Collection<T> = {
+  path: string;
+  get(id: number): Promise<T>;
+  create(fields: Fields): Promise<T>;
+  update(id: number, fields: Fields): Promise<T | null>;
+  remove(id: number): Promise<void>;
+};
+
+function collection<T>(path: string): Collection<T> {
+  return {
+    path,
+    get: (id) => request<T>('GET', `${path}/${id}`),
+    create: (fields) => request<T>('POST', path, fields),
+    update: (id, fields) => request<T | null>('PUT', `${path}/${id}`, fields),
+    remove: async (id) => {
+      await request<null>('DELETE', `${path}/${id}`);
+    },
+  };
+}
+
+// ---------- Endpoints ----------
+
+export const users = {
+  list: () => request<ApiUser[]>('GET', '/users'),
+  get: (userId: number) => request<ApiUser>('GET', `/users/${userId}`),
+  // 404 until the account has been registered with create()
+  getByFirebaseUid: (uid: string) => request<ApiUser>('GET', `/users/firebase/${encodeURIComponent(uid)}`),
+  create: (user: NewApiUser) => request<ApiUser>('POST', '/users', user),
+  login: (credentials: LoginRequest) => request<LoginResponse>('POST', '/users/login', credentials),
+};
+
+export const friends = {
+  ...collection<ApiFriend>('/friends'),
+  forUser: feed<ApiFriend>('/friends/user'),
+  // requests waiting for the user's answer
+  pending: (userId: number) => request<ApiFriend[]>('GET', `/friends/pending/${userId}`),
+};
+
+export const events = {
+  ...collection<ApiEvent>('/events'),
+  list: () => request<ApiEvent[]>('GET', '/events'),
+  forUser: feed<ApiEvent>('/events/user'),
+  // Other users' events the user may see: free time friends share and events they are invited to
+  sharedWith: feed<ApiEvent>('/events/shared/user'),
+  // true for events, false for free-time slots
+  byType: (isEvent: boolean) => request<ApiEvent[]>('GET', `/events/type/${isEvent}`),
+};
+
+export const rsvps = {
+  ...collection<ApiRsvp>('/rsvps'),
+  // the user's invitations and the answers to the user's own events
+  forUser: feed<ApiRsvp>('/rsvps/user'),
+  pending: (userId: number) => request<ApiRsvp[]>('GET', `/rsvps/user/${userId}/pending`),
+  summary: (eventId: number) => request<RsvpSummary>('GET', `/rsvps/event/${eventId}/summary`),
+};
+
+export const notifications = {
+  forUser: feed<ApiNotification>('/notifications/user'),
+};
+
+// Preferences are addressed by user id and only ever read or updated
+export const userPrefs = {
+  path: '/user-prefs/user',
+  get: (userId: number) => request<ApiUserPrefs>('GET', `/user-prefs/user/${userId}`),
+  update: (userId: number, fields: Fields) => request<ApiUserPrefs | null>('PUT', `/user-prefs/user/${userId}`, fields),
+};
+
+export default {
+  setAuthToken,
+  setTokenSource,
+  getAuthToken,
+  users,
+  friends,
+  events,
+  rsvps,
+  notifications,
+  userPrefs,
+};
@@ -0,0 +1,132 @@
+/*
+  config.ts — Which backend the app talks to
+
+  Named environments, each with the base URL of its backend (api.ts adds `/api`):
+
+  - local:      the mock backend (`npm run mock-server`) on this machine; the Android emulator
+                reaches it at 10.0.2.2. EXPO_PUBLIC_LOCAL_API_URL overrides it, e.g. for a phone.
+  - staging:    EXPO_PUBLIC_STAGING_API_URL; unavailable unless set
+  - production: EXPO_PUBLIC_API_URL, or the deployed Heroku backend
+
+  A build starts in EXPO_PUBLIC_ENV (production if unset). Developers can switch at runtime from the
+  WelcomeScreen debug panel; the choice is kept in storage and restored by `loadConfig()` at startup.
+  api.ts and realtime.ts read the URL for every request, so a switch applies from the next one.
+*/
+
+import { useSyncExternalStore } from 'react';
+import { Platform } from 'react-native';
+import storage from './storage';
+
+export type Environment = 'local' | 'staging' | 'production';
+
+export type EnvironmentConfig = {
+  name: Environment;
+  label: string;
+  // null when the build was not given a URL for it
+  apiUrl: string | null;
+};
+
+const ENV_KEY = 'environment';
+
+const withoutSlash = (url: string | undefined) => (url ? url.replace(/\/+$/, '') : null);
+
+export const ENVIRONMENTS: { [E in Environment]: EnvironmentConfig } = {
+  local: {
+    name: 'local',
+    label: 'Local',
+    apiUrl: withoutSlash(process.env.EXPO_PUBLIC_LOCAL_API_URL) ?? (Platform.OS === 'android' ? 'http://10.0.2.2:4000' : 'http://localhost:4000'),
+  },
+  staging: {
+    name: 'staging',
+    label: 'Staging',
+    apiUrl: withoutSlash(process.env.EXPO_PUBLIC_STAGING_API_URL),
+  },
+  production: {
+    name: 'production',
+    label: 'Production',
+    apiUrl: withoutSlash(process.env.EXPO_PUBLIC_API_URL) ?? 'https://project03-friendsync-backend-8c893d18fe37.herokuapp.com',
+  },
+};
+
+const isAvailable = (name: unknown): name is Environment =>
+  typeof name === 'string' && name in ENVIRONMENTS && ENVIRONMENTS[name as Environment].apiUrl != null;
+
+function buildDefault(): Environment {
+  const wanted = process.env.EXPO_PUBLIC_ENV;
+  if (wanted == null || isAvailable(wanted)) return wanted ?? 'production';
+  // eslint-disable-next-line no-console
+  console.warn(`config: EXPO_PUBLIC_ENV=${wanted} is not a configured environment, using production`);
+  return 'production';
+}
+
+let current: Environment = buildDefault();
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((l) => {
+    try {
+      l();
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.warn('config: listener failed', e);
+    }
+  });
+}
+
+export function getEnvironment(): Environment {
+  return current;
+}
+
+// Base URL of the current environment's backend, without a trailing slash
+export function getApiBaseUrl(): string {
+  return ENVIRONMENTS[current].apiUrl!;
+}
+
+/**
+ * Restore the environment chosen at runtime, if any. Call once at startup, before the first request.
+ */
+export async function loadConfig(): Promise<Environment> {
+  const saved = await storage.getItem<string>(ENV_KEY).catch(() => null);
+  if (saved != null && saved !== current) {
+    if (isAvailable(saved)) {
+      current = saved;
+      notify();
+    } else {
+      // eslint-disable-next-line no-console
+      console.warn(`config: saved environment ${saved} is not configured in this build`);
+    }
+  }
+  return current;
+}
+
+/**
+ * Switch to another environment and remember the choice. Data synced from the previous backend is
+ * left alone; callers should sign out and clear it (see WelcomeScreen).
+ */
+export async function setEnvironment(name: Environment): Promise<void> {
+  if (!isAvailable(name)) throw new Error(`config: environment ${name} has no API URL in this build`);
+  await storage.setItem(ENV_KEY, name);
+  if (name === current) return;
+  current = name;
+  notify();
+}
+
+export function subscribeConfig(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** The current environment, re-rendering whenever it changes. */
+export function useEnvironment(): EnvironmentConfig {
+  const name = useSyncExternalStore(subscribeConfig, getEnvironment, getEnvironment);
+  return ENVIRONMENTS[name];
+}
+
+export default {
+  ENVIRONMENTS,
+  getEnvironment,
+  getApiBaseUrl,
+  loadConfig,
+  setEnvironment,
+  useEnvironment,
+};
@@ -0,0 +1,186 @@
+/*
+  conflicts.ts — Detecting and settling concurrent edits of events, rsvps and preferences
+
+  A local update records, as the `base` of its outbox entry, the row's backend `version` and the
+  values it replaced. When sync sees the backend's copy of that row while the update is still
+  waiting (pulled, or sent back with a 409 because the push was refused) and the backend has moved
+  past that version, the two edits conflict and the active policy decides:
+
+  - server-wins: the backend's row replaces the local edit
+  - client-wins: the local edit is kept and pushed over the backend's row
+  - merge: fields changed on only one side are combined; fields both sides changed to different
+    values keep the backend's value and the conflict stays open until the user picks a side
+
+  Backends that send no `version` are compared field by field against the base instead.
+
+  Conflicts are recorded in the `conflicts` table (db.getConflicts) for ConflictsScreen, where
+  `resolveConflict()` lets the user pick the other side after the fact.
+*/
+
+import * as db from './db';
+import storage from './storage';
+import { ConflictResolution, ConflictTable, OutboxEntry, Repositories, Row } from './db';
+
+export type ConflictPolicy = 'server-wins' | 'client-wins' | 'merge';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['server-wins', 'client-wins', 'merge'];
+
+const POLICY_KEY = 'sync_conflict_policy';
+const DEFAULT_POLICY: ConflictPolicy = 'merge';
+
+let policy: ConflictPolicy | null = null;
+
+// Fields compared between the local row and the backend's
+export const CONFLICT_FIELDS: { [T in ConflictTable]: string[] } = {
+  events: ['eventTitle', 'description', 'startTime', 'endTime', 'date', 'isEvent', 'recurring', 'rrule', 'exdates'],
+  rsvps: ['status'],
+  user_prefs: ['theme', 'notificationEnabled', 'colorScheme'],
+};
+
+export async function getConflictPolicy(): Promise<ConflictPolicy> {
+  if (!policy) {
+    const stored = await storage.getItem<ConflictPolicy>(POLICY_KEY).catch(() => null);
+    policy = stored && CONFLICT_POLICIES.includes(stored) ? stored : DEFAULT_POLICY;
+  }
+  return policy;
+}
+
+export async function setConflictPolicy(next: ConflictPolicy) {
+  policy = next;
+  await storage.setItem(POLICY_KEY, next);
+}
+
+// true/false and 1/0 are the same value here, as are null and undefined
+function same(a: unknown, b: unknown): boolean {
+  const norm = (v: unknown) => (typeof v === 'boolean' ? Number(v) : v ?? null);
+  const x = norm(a);
+  const y = norm(b);
+  return x === y || (x != null && y != null && String(x) === String(y));
+}
+
+function pick(row: Row, keys: string[]): Row {
+  const out: Row = {};
+  keys.forEach((k) => {
+    if (k in row) out[k] = row[k];
+  });
+  return out;
+}
+
+export type Settlement = {
+  // local values to keep on top of the backend's row (and push again)
+  keep: Row;
+  // the fields in dispute
+  fields: string[];
+  // null when the user has to decide
+  resolution: ConflictResolution | null;
+};
+
+/**
+ * Decide between local changes `local` (which replaced `base`) and the backend's `remote` values.
+ */
+export function settle(rule: ConflictPolicy, table: ConflictTable, base: Row | null, local: Row, remote: Row): Settlement {
+  const changed = CONFLICT_FIELDS[table].filter((k) => k in local);
+  const differ = changed.filter((k) => !same(local[k], remote[k]));
+  // without a base value there is no telling which side changed a field, so assume both did
+  const both = differ.filter((k) => !base || !(k in base) || !same(remote[k], base[k]));
+
+  if (rule === 'server-wins') return { keep: {}, fields: differ, resolution: 'server' };
+  if (rule === 'client-wins') return { keep: pick(local, changed), fields: differ, resolution: 'client' };
+  return {
+    keep: pick(local, changed.filter((k) => !both.includes(k))),
+    fields: both,
+    resolution: both.length > 0 ? null : 'merge',
+  };
+}
+
+// Has the backend changed the row since `base`? Without versions only a field both sides changed counts.
+function diverged(table: ConflictTable, base: Row, local: Row, remote: RemoteRow): boolean {
+  if (remote.version != null && base.version != null) return remote.version > Number(base.version);
+  return settle('merge', table, base, local, remote.values).fields.length > 0;
+}
+
+// Write values to the local row only; the outbox is handled by the caller
+async function writeLocal(tx: Repositories, table: ConflictTable, localId: number, values: Row) {
+  if (Object.keys(values).length === 0) return;
+  if (table === 'events') await tx.events.update(localId, values);
+  else if (table === 'rsvps') await tx.rsvps.update(localId, values);
+  else await tx.userPrefs.set(localId, values);
+}
+
+// The backend's copy of a row: its version (if it keeps one) and the CONFLICT_FIELDS values
+export type RemoteRow = { version: number | null; values: Row };
+
+/**
+ * Store the backend's copy of a row that may have local updates still waiting in `outbox`.
+ * `store` writes the backend's copy (with its version) to the local row. Pending local changes are
+ * then put back on top, or, if the backend changed the row as well, the conflict is settled by the
+ * active policy: the row's outbox updates are replaced by one carrying whatever local values were
+ * kept, based on the backend's version, and the conflict is recorded if any field was in dispute.
+ */
+export async function reconcile(
+  tx: Repositories,
+  table: ConflictTable,
+  localId: number,
+  remote: RemoteRow,
+  store: () => Promise<unknown>,
+  outbox: OutboxEntry[],
+): Promise<void> {
+  const pending = outbox.filter((o) => o.table === table && o.localId === localId);
+  const updates = pending.filter((o) => o.op === 'update');
+  await store();
+  if (updates.length === 0) return;
+
+  const local: Row = Object.assign({}, ...updates.map((u) => u.payload ?? {}));
+  // the oldest update saw the row as it was synced; later ones saw the earlier local edits
+  const base: Row = Object.assign({}, ...updates.slice().reverse().map((u) => u.base ?? {}));
+
+  if (!diverged(table, base, local, remote)) {
+    // the backend has not touched what was edited, so the edit still applies and is pushed as it is
+    await writeLocal(tx, table, localId, pick(local, CONFLICT_FIELDS[table]));
+    return;
+  }
+
+  const outcome = settle(await getConflictPolicy(), table, base, local, remote.values);
+  const kept = Object.keys(outcome.keep);
+  await writeLocal(tx, table, localId, outcome.keep);
+  for (const u of updates) await tx.outbox.remove(u.outboxId);
+  if (kept.length > 0 && !pending.some((o) => o.op === 'delete')) {
+    await tx.outbox.add({
+      table,
+      op: 'update',
+      localId,
+      payload: outcome.keep,
+      base: { ...pick(remote.values, kept), version: remote.version },
+    });
+  }
+  if (outcome.fields.length > 0) {
+    await tx.conflicts.add({ table, localId, fields: outcome.fields, base, local, remote: remote.values, resolution: outcome.resolution });
+  }
+}
+
+/**
+ * Settle a recorded conflict by hand. The disputed fields take `choice`'s values, written and
+ * queued for the backend like any other edit.
+ */
+export async function resolveConflict(conflictId: number, choice: 'server' | 'client') {
+  const conflict = (await db.getConflicts()).find((c) => c.conflictId === conflictId);
+  if (!conflict) return;
+
+  // the row holds the local values only if the client won; open conflicts show the backend's
+  const current = conflict.resolution === 'client' ? 'client' : 'server';
+  if (choice !== current) {
+    const values = pick(choice === 'client' ? conflict.local : conflict.remote, conflict.fields);
+    if (conflict.table === 'events') await db.updateEvent(conflict.localId, values);
+    else if (conflict.table === 'rsvps') await db.updateRsvp(conflict.localId, values);
+    else await db.setUserPreferences(conflict.localId, values);
+  }
+  await db.markConflictResolved(conflictId, choice);
+}
+
+export default {
+  getConflictPolicy,
+  setConflictPolicy,
+  settle,
+  reconcile,
+  resolveConflict,
+};
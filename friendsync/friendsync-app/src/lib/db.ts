@@ -2,574 +2,578 @@
   db.ts — Auto-detecting DB adapter (native expo-sqlite or JS fallback)
 
   Schema (camelCase):
-  - events: eventId (PK), date, description, endTime, eventTitle, isEvent, recurring, startTime, userId
-  - friends: friendRowId (PK), userId, friendId, status
-  - rsvps: rsvpId (PK), createdAt, eventId, eventOwnerId, inviteRecipientId, status, updatedAt
-  - user_prefs: preferenceId (PK), userId, colorScheme, notificationEnabled, theme, updatedAt
+  - events: eventId (PK), serverId, date, description, endTime, eventTitle, isEvent, recurring, rrule, exdates, uid, startTime, userId, updatedAt, version, deletedAt, deleteAckedAt
+  - friends: friendRowId (PK), serverId, userId, friendId, status, deletedAt, deleteAckedAt
+  - rsvps: rsvpId (PK), serverId, createdAt, eventId, eventOwnerId, inviteRecipientId, status, updatedAt, version, deletedAt, deleteAckedAt
+  - user_prefs: preferenceId (PK), userId, colorScheme, notificationEnabled, theme, updatedAt, version
   - users: userId (PK), email, username
-  - notifications: notificationId (PK), notifMsg, userId, notifType, createdAt
+  - notifications: notificationId (PK), serverId, notifMsg, userId, notifType, createdAt, deletedAt, deleteAckedAt
+  - outbox: outboxId (PK), tableName, op, localId, payload, base, createdAt, attempts, lastError
+  - sync_cursors: feed (PK), since, updatedAt
+  - conflicts: conflictId (PK), tableName, localId, fields, base, local, remote, detectedAt, resolution, resolvedAt
+  Indexes (native): events (userId, startTime), rsvps (inviteRecipientId)
+  Unique: events.serverId, one friends row per pair (either direction), rsvps (eventId, inviteRecipientId)
 
-  The adapter detects native expo-sqlite at runtime and uses it when available. Otherwise a JS-backed
-  snapshot persisted via `src/lib/storage.ts` under key `fallback_db_v1` is used.
-*/
+  Deletes of events, rsvps, friends and notifications are soft (tombstones, see dbTypes.ts); the
+  rows disappear for good in `purgeTombstones()` once the backend has acknowledged them.
 
-import { Platform } from 'react-native';
-import storage from './storage';
+  The event, rsvp, friend and preference functions below also queue each change in the outbox, in
+  the same transaction, for `sync.ts` to push. Updates record the version and values they replace so
+  sync can tell a conflicting edit on the backend (see conflicts.ts). Writes made through `transaction()` repositories are not
+  queued; that is how sync stores what it pulled.
 
-const FALLBACK_KEY = 'fallback_db_v1';
+  The adapter detects native expo-sqlite at runtime and uses it when available. Otherwise a JS-backed
+  snapshot persisted via `src/lib/storage.ts` under key `fallback_db_v1` is used. Tests (or tools) can
+  swap in any other DbBackend with `setBackend()`, e.g. the in-memory one from `dbMemory.ts`.
 
-type Row = { [k: string]: any };
+  Schema changes go through the versioned migrations in `dbMigrations.ts`, applied by `init_db()`.
 
-type DBShape = {
-  __meta__: { nextId: { [table: string]: number } };
-  users: Row[];
-  friends: Row[];
-  rsvps: Row[];
-  user_prefs: Row[];
-  events: Row[];
-  notifications: Row[];
-};
+  Every backend implements the DbBackend interface and typed repositories in `dbTypes.ts` (native:
+  `dbNative.ts`, fallback: `dbFallback.ts`); the functions below only pick the active one and delegate. Use `transaction()` when
+  several writes must land together. Every write below runs through it too, so a single write can
+  never land in the middle of someone else's transaction and be overwritten when it commits.
+
+  Every write is announced to `subscribe()` listeners (see `dbEvents.ts`); the hooks in `dbHooks.ts`
+  use this to re-query when a table they read from changes.
+*/
 
-let nativeDb: any = null;
-let useNative = false;
+import { AppState, Platform } from 'react-native';
+import {
+  DbBackend, Repositories, User, Event, FreeTimeSlot, Friendship, Rsvp, Notification, UserPrefs,
+  NewUser, UserUpdate, NewEvent, EventUpdate, EventUpsert, EventFilter, NewFreeTime, NewRsvp, RsvpUpdate, NewNotification, UserPrefsUpdate,
+  Tombstone, TombstoneTable, DbTable, DbChange, OutboxEntry, OutboxTable, ServerIdTable, Row, Conflict, ConflictResolution,
+} from './dbTypes';
+import { openNativeExecutor, createNativeBackend } from './dbNative';
+import { createCachedStore, createFallbackBackend } from './dbFallback';
+import { ALL_TABLES, ChangeListener, createChangeEmitter, observeRepositories } from './dbEvents';
+import { expandEvents, Occurrence, splitSeries } from './recurrence';
+
+export * from './dbTypes';
+export { createMemoryBackend } from './dbMemory';
+
+let backend: DbBackend | null = null;
+let detecting: Promise<DbBackend> | null = null;
 let initialized = false;
+let schemaVersion = 0;
+
+const fallbackBackend = createFallbackBackend(createCachedStore());
+let appStateSub: { remove: () => void } | null = null;
+
+// Transactions run one at a time so two of them never commit over each other
+let txQueue: Promise<unknown> = Promise.resolve();
 
-async function tryInitNative() {
-  if (useNative || Platform.OS === 'web') return;
+const changes = createChangeEmitter();
+// the active backend's repositories wrapped to report their writes
+const observed = new WeakMap<DbBackend, Repositories>();
+
+async function detectBackend(): Promise<DbBackend> {
+  if (Platform.OS === 'web') return fallbackBackend;
   try {
     // eslint-disable-next-line @typescript-eslint/no-var-requires
     const SQLite: any = require('expo-sqlite');
-    let dbHandle: any = null;
-    if (typeof SQLite.openDatabaseSync === 'function') dbHandle = SQLite.openDatabaseSync('friendsync.db');
-    else if (typeof SQLite.openDatabase === 'function') dbHandle = SQLite.openDatabase('friendsync.db');
-
-    if (dbHandle && typeof dbHandle.transaction === 'function') {
-      nativeDb = dbHandle;
-      useNative = true;
+    const opened = await openNativeExecutor(SQLite, 'friendsync.db');
+    if (opened) {
       // eslint-disable-next-line no-console
-      console.log('db: using native expo-sqlite implementation');
+      console.log(`db: using native expo-sqlite implementation (${opened.adapter} adapter)`);
+      return createNativeBackend(opened.sql, opened.adapter);
     }
   } catch (e) {
     // ignore — fallback will be used
   }
+  return fallbackBackend;
 }
 
-async function loadFallback(): Promise<DBShape> {
-  const val = await storage.getItem<any>(FALLBACK_KEY);
-  if (!val) {
-    const initial: DBShape = {
-      __meta__: { nextId: {} },
-      users: [],
-      friends: [],
-      rsvps: [],
-      user_prefs: [],
-      events: [],
-      notifications: [],
-    };
-    await storage.setItem(FALLBACK_KEY, initial);
-    return initial;
+async function activeBackend(): Promise<DbBackend> {
+  if (backend) return backend;
+  // opening native is async, so concurrent first calls must share one attempt
+  if (!detecting) detecting = detectBackend().then((b) => backend ?? (backend = b));
+  return detecting;
+}
+
+async function repos(): Promise<Repositories> {
+  const b = await activeBackend();
+  let r = observed.get(b);
+  if (!r) {
+    r = observeRepositories(b.repos, (c) => changes.emit(c));
+    observed.set(b, r);
   }
+  return r;
+}
 
-  // Normalize/validate existing shape to avoid runtime undefineds from older or corrupted data
-  const normalized: DBShape = {
-    __meta__: (val.__meta__ && typeof val.__meta__ === 'object') ? val.__meta__ : { nextId: {} },
-    users: Array.isArray(val.users) ? val.users : [],
-    friends: Array.isArray(val.friends) ? val.friends : [],
-    rsvps: Array.isArray(val.rsvps) ? val.rsvps : [],
-    user_prefs: Array.isArray(val.user_prefs) ? val.user_prefs : [],
-    events: Array.isArray(val.events) ? val.events : [],
-    notifications: Array.isArray(val.notifications) ? val.notifications : [],
-  };
-
-  // Ensure __meta__.nextId exists and is an object
-  if (!normalized.__meta__ || typeof normalized.__meta__ !== 'object') normalized.__meta__ = { nextId: {} };
-  if (!normalized.__meta__.nextId || typeof normalized.__meta__.nextId !== 'object') normalized.__meta__.nextId = {};
-
-  // Initialize missing nextId counters for known tables
-  ['users', 'friends', 'rsvps', 'user_prefs', 'events', 'notifications'].forEach((tbl) => {
-    if (normalized.__meta__.nextId[tbl] == null) {
-      // compute a safe next id (max existing id + 1) if possible
-      try {
-        const arr = (normalized as any)[tbl] as any[];
-        let max = 0;
-        arr.forEach((r: any) => {
-          const idKeys = Object.keys(r).filter(k => /id$/i.test(k));
-          idKeys.forEach((k) => { const v = Number(r[k]); if (!Number.isNaN(v) && v > max) max = v; });
-        });
-        normalized.__meta__.nextId[tbl] = max + 1;
-      } catch {
-        normalized.__meta__.nextId[tbl] = 1;
-      }
-    }
-  });
+/**
+ * Call `listener` whenever one of `tables` ('*' for all) is written to, by any db function, a
+ * committed transaction, or sync. Returns the unsubscribe function.
+ */
+export function subscribe(tables: DbTable | DbTable[] | '*', listener: ChangeListener): () => void {
+  return changes.subscribe(tables, listener);
+}
 
-  // Persist a normalized copy back to storage to prevent repeated fixes
-  try { await storage.setItem(FALLBACK_KEY, normalized); } catch (e) { /* non-fatal */ }
+/**
+ * Replace the backend every db function dispatches to (e.g. `createMemoryBackend()` in tests).
+ * Pass null to go back to auto-detection. Call `init_db()` again afterwards.
+ */
+export function setBackend(next: DbBackend | null) {
+  backend = next;
+  detecting = null;
+  initialized = false;
+  schemaVersion = 0;
+}
 
-  return normalized;
+export async function init_db() {
+  const b = await activeBackend();
+  try {
+    schemaVersion = await b.init();
+  } catch (e) {
+    if (b !== backend || b.name !== 'native') throw e;
+    // eslint-disable-next-line no-console
+    console.warn('db: native migration failed, using fallback', e);
+    backend = fallbackBackend;
+    schemaVersion = await fallbackBackend.init();
+  }
+
+  // Pending fallback writes must not be lost if the OS kills the app while it is in the background
+  if (!appStateSub) {
+    appStateSub = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') flush().catch(() => {});
+    });
+  }
+
+  initialized = true;
+  return true;
 }
 
-async function saveFallback(db: DBShape) {
-  await storage.setItem(FALLBACK_KEY, db);
+/**
+ * Persist any fallback changes that are still waiting for their batched save. No-op on native.
+ */
+export async function flush() {
+  await (await activeBackend()).flush();
+}
+
+/**
+ * Forget the in-memory fallback snapshot so the next call reloads it from storage. Call this after
+ * removing or replacing the stored snapshot directly (e.g. clearing storage from the debug UI).
+ */
+export async function invalidateCache() {
+  await (await activeBackend()).invalidate();
+  // whatever was on screen may be gone now
+  changes.emit(ALL_TABLES.map((table) => ({ table, op: 'update' })));
+}
+
+/**
+ * Run several reads/writes atomically. On native SQLite this is a real transaction; on the fallback
+ * the callback works on a copy of the snapshot that is committed in a single save. If `fn` throws,
+ * nothing it wrote is kept and the error is rethrown.
+ *
+ * Only use `tx` inside the callback — top-level reads do not see what it wrote yet, and top-level
+ * writes (or a nested `transaction`) wait for it to finish, so calling them from within it hangs.
+ */
+export async function transaction<T>(fn: (tx: Repositories) => Promise<T>): Promise<T> {
+  const b = await activeBackend();
+  return queued(async () => {
+    // listeners only hear about writes that were actually committed
+    const pending: DbChange[] = [];
+    const value = await b.transaction((tx) => fn(observeRepositories(tx, (c) => pending.push(...c))));
+    changes.emit(pending);
+    return value;
+  });
 }
 
-function nextId(db: DBShape, table: keyof DBShape): number {
-  const n = db.__meta__.nextId[table as string] ?? 1;
-  db.__meta__.nextId[table as string] = n + 1;
-  return n;
+function queued<T>(run: () => Promise<T>): Promise<T> {
+  const result = txQueue.then(run, run);
+  txQueue = result.catch(() => undefined);
+  return result;
 }
 
-function execSqlNative(database: any, sql: string, params: any[] = []): Promise<any> {
-  return new Promise((resolve, reject) => {
-    if (!database || typeof database.transaction !== 'function') return reject(new Error('Invalid native DB handle'));
-    database.transaction((tx: any) => {
-      tx.executeSql(sql, params, (_: any, result: any) => resolve(result), (_: any, err: any) => { reject(err); return false; });
-    }, (txErr: any) => reject(txErr));
-  });
+/**
+ * Delete every row of every table, including queued outbox entries and sync cursors, e.g. before
+ * switching to a backend environment whose server ids mean nothing to the rows stored here.
+ */
+export async function resetDatabase() {
+  const b = await activeBackend();
+  await queued(() => b.reset());
+  changes.emit(ALL_TABLES.map((table) => ({ table, op: 'delete' })));
 }
 
-async function createNativeTables() {
-  if (!useNative || !nativeDb) return;
-  await execSqlNative(nativeDb, `CREATE TABLE IF NOT EXISTS events (
-    eventId INTEGER PRIMARY KEY AUTOINCREMENT,
-    date TEXT,
-    description TEXT,
-    endTime TEXT,
-    eventTitle TEXT,
-    isEvent INTEGER,
-    recurring INTEGER,
-    startTime TEXT,
-    userId INTEGER
-  );`);
-
-  await execSqlNative(nativeDb, `CREATE TABLE IF NOT EXISTS friends (
-    friendRowId INTEGER PRIMARY KEY AUTOINCREMENT,
-    userId INTEGER,
-    friendId INTEGER,
-    status TEXT
-  );`);
-
-  await execSqlNative(nativeDb, `CREATE TABLE IF NOT EXISTS rsvps (
-    rsvpId INTEGER PRIMARY KEY AUTOINCREMENT,
-    createdAt TEXT,
-    eventId INTEGER,
-    eventOwnerId INTEGER,
-    inviteRecipientId INTEGER,
-    status TEXT,
-    updatedAt TEXT
-  );`);
-
-  await execSqlNative(nativeDb, `CREATE TABLE IF NOT EXISTS user_prefs (
-    preferenceId INTEGER PRIMARY KEY AUTOINCREMENT,
-    userId INTEGER,
-    colorScheme INTEGER,
-    notificationEnabled INTEGER,
-    theme INTEGER,
-    updatedAt TEXT
-  );`);
-
-  await execSqlNative(nativeDb, `CREATE TABLE IF NOT EXISTS users (
-    userId INTEGER PRIMARY KEY AUTOINCREMENT,
-    email TEXT,
-    username TEXT
-  );`);
-
-  await execSqlNative(nativeDb, `CREATE TABLE IF NOT EXISTS notifications (
-    notificationId INTEGER PRIMARY KEY AUTOINCREMENT,
-    notifMsg TEXT,
-    userId INTEGER,
-    notifType TEXT,
-    createdAt TEXT
-  );`);
+export function getStatus() {
+  return { initialized, backend: backend?.name ?? 'fallback', adapter: backend?.adapter ?? null, schemaVersion };
 }
 
-export async function init_db() {
-  await tryInitNative();
-  if (useNative) {
-    try { await createNativeTables(); } catch (e) { useNative = false; await loadFallback(); }
-  } else {
-    await loadFallback();
-  }
-  initialized = true;
-  return true;
+// Users
+export async function createUser(user: NewUser): Promise<number> {
+  return transaction((tx) => tx.users.create(user));
 }
 
-export function getStatus() { return { initialized, backend: useNative ? 'native' : 'fallback' } }
+export async function getUserById(id: number): Promise<User | null> {
+  return (await repos()).users.getById(id);
+}
 
-export async function createUser(user: { username: string; email: string; password?: string; phone_number?: string | null; }): Promise<number> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, 'INSERT INTO users (email, username) VALUES (?, ?);', [user.email, user.username]);
-    return res.insertId ?? 0;
-  }
-  const db = await loadFallback();
-  const id = nextId(db, 'users');
-  db.users.push({ userId: id, username: user.username, email: user.email });
-  await saveFallback(db);
-  return id;
+export async function getUserByUsername(username: string): Promise<User | null> {
+  return (await repos()).users.getByUsername(username);
 }
 
-export async function getUserById(id: number): Promise<any | null> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, 'SELECT * FROM users WHERE userId = ?;', [id]);
-    return (res.rows && res.rows._array && res.rows._array[0]) ?? null;
-  }
-  const db = await loadFallback();
-  return db.users.find(u => u.userId === id) ?? null;
+export async function upsertUser(user: User): Promise<number> {
+  return transaction((tx) => tx.users.upsert(user));
 }
 
-export async function getUserByUsername(username: string): Promise<any | null> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, 'SELECT * FROM users WHERE username = ?;', [username]);
-    return (res.rows && res.rows._array && res.rows._array[0]) ?? null;
-  }
-  const db = await loadFallback();
-  return db.users.find(u => u.username === username) ?? null;
-}
-
-export async function updateUser(id: number, fields: { username?: string; email?: string; password?: string; phone_number?: string | null }) {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const sets: string[] = [];
-    const params: any[] = [];
-    if (fields.username !== undefined) { sets.push('username = ?'); params.push(fields.username); }
-    if (fields.email !== undefined) { sets.push('email = ?'); params.push(fields.email); }
-    if (sets.length === 0) return;
-    params.push(id);
-    const sql = `UPDATE users SET ${sets.join(', ')} WHERE userId = ?;`;
-    await execSqlNative(nativeDb, sql, params);
-    return;
-  }
-  const db = await loadFallback();
-  const idx = db.users.findIndex(u => u.userId === id);
-  if (idx === -1) return;
-  db.users[idx] = { ...db.users[idx], ...fields };
-  await saveFallback(db);
+export async function updateUser(id: number, fields: UserUpdate) {
+  await transaction((tx) => tx.users.update(id, fields));
 }
 
 export async function deleteUser(id: number) {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    await execSqlNative(nativeDb, 'DELETE FROM users WHERE userId = ?;', [id]);
-    return;
-  }
-  const db = await loadFallback();
-  db.users = db.users.filter(u => u.userId !== id);
-  db.friends = db.friends.filter(r => r.userId !== id && r.friendId !== id);
-  db.events = db.events.filter(e => e.userId !== id);
-  db.rsvps = db.rsvps.filter(r => r.eventOwnerId !== id && r.inviteRecipientId !== id);
-  db.notifications = db.notifications.filter(n => n.userId !== id);
-  db.user_prefs = db.user_prefs.filter(p => p.userId !== id);
-  await saveFallback(db);
+  await transaction((tx) => tx.users.delete(id));
 }
 
 // Friends
 export async function sendFriendRequest(senderId: number, receiverId: number): Promise<number> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, "INSERT INTO friends (userId, friendId, status) VALUES (?, ?, 'pending');", [senderId, receiverId]);
-    return res.insertId ?? 0;
-  }
-  const db = await loadFallback();
-  const id = nextId(db, 'friends');
-  db.friends.push({ friendRowId: id, userId: senderId, friendId: receiverId, status: 'pending' });
-  await saveFallback(db);
-  return id;
+  return transaction(async (tx) => {
+    const id = await tx.friends.create(senderId, receiverId);
+    await tx.outbox.add({ table: 'friends', op: 'create', localId: id, payload: { userId: senderId, friendId: receiverId, status: 'pending' } });
+    return id;
+  });
+}
+
+/** Create or update the single friends row for a pair (in either direction). */
+export async function upsertFriendship(userA: number, userB: number, status?: Friendship['status']): Promise<number> {
+  return transaction((tx) => tx.friends.upsert(userA, userB, status));
 }
 
 export async function respondFriendRequest(requestId: number, accept: boolean) {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const status = accept ? 'accepted' : 'rejected';
-    await execSqlNative(nativeDb, 'UPDATE friends SET status = ? WHERE friendRowId = ?;', [status, requestId]);
-    return;
-  }
-  const db = await loadFallback();
-  const r = db.friends.find(rr => rr.friendRowId === requestId);
-  if (!r) return;
-  r.status = accept ? 'accepted' : 'rejected';
-  await saveFallback(db);
-}
-
-export async function getFriendRequestsForUser(userId: number): Promise<any[]> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, "SELECT * FROM friends WHERE friendId = ? AND status = 'pending';", [userId]);
-    return res.rows._array as any[];
-  }
-  const db = await loadFallback();
-  return db.friends.filter(r => r.friendId === userId && r.status === 'pending');
+  const status = accept ? 'accepted' : 'rejected';
+  await transaction(async (tx) => {
+    await tx.friends.setStatus(requestId, status);
+    await tx.outbox.add({ table: 'friends', op: 'update', localId: requestId, payload: { status } });
+  });
+}
+
+export async function getFriendRequestsForUser(userId: number): Promise<Friendship[]> {
+  return (await repos()).friends.getPendingFor(userId);
 }
 
 export async function getFriendsForUser(userId: number): Promise<number[]> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, `
-        SELECT userId, friendId FROM friends
-        WHERE status = 'accepted' AND (userId = ? OR friendId = ?);
-    `, [userId, userId]);
-    return (res.rows._array as any[]).map((r) => (r.userId === userId ? r.friendId : r.userId) as number);
-  }
-  const db = await loadFallback();
-  const accepted = db.friends.filter((r: any) => r.status === 'accepted' && (r.userId === userId || r.friendId === userId));
-  return accepted.map((r: any) => (r.userId === userId ? r.friendId : r.userId));
+  const accepted = await (await repos()).friends.getAcceptedFor(userId);
+  return accepted.map((r) => (r.userId === userId ? r.friendId : r.userId));
 }
 
 export async function removeFriend(userA: number, userB: number) {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    await execSqlNative(nativeDb, `
-        DELETE FROM friends
-        WHERE status = 'accepted' AND
-            ((userId = ? AND friendId = ?) OR (userId = ? AND friendId = ?));
-    `, [userA, userB, userB, userA]);
-    return;
-  }
-  const db = await loadFallback();
-  db.friends = db.friends.filter((r: any) => !(r.status === 'accepted' && ((r.userId === userA && r.friendId === userB) || (r.userId === userB && r.friendId === userA))));
-  await saveFallback(db);
+  await transaction(async (tx) => {
+    const rows = (await tx.friends.getAcceptedFor(userA)).filter((r) => r.userId === userB || r.friendId === userB);
+    await tx.friends.removeAccepted(userA, userB);
+    for (const r of rows) await tx.outbox.add({ table: 'friends', op: 'delete', localId: r.friendRowId });
+  });
+}
+
+// What an update replaces: the row's synced version and the old values of the fields it changes
+function baseOf(row: Row | null, fields: Row): Row | null {
+  if (!row) return null;
+  const base: Row = { version: row.version ?? 0 };
+  Object.keys(fields).forEach((k) => {
+    if (fields[k] !== undefined) base[k] = row[k];
+  });
+  return base;
 }
 
 // RSVPs
-export async function createRsvp(rsvp: { eventId: number; eventOwnerId: number; inviteRecipientId: number; status?: string; createdAt?: string; updatedAt?: string }): Promise<number> {
-  await tryInitNative();
-  const now = new Date().toISOString();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, 'INSERT INTO rsvps (createdAt, eventId, eventOwnerId, inviteRecipientId, status, updatedAt) VALUES (?, ?, ?, ?, ?, ?);', [rsvp.createdAt ?? now, rsvp.eventId, rsvp.eventOwnerId, rsvp.inviteRecipientId, rsvp.status ?? 'pending', rsvp.updatedAt ?? now]);
-    return res.insertId ?? 0;
-  }
-  const db = await loadFallback();
-  const id = nextId(db, 'rsvps');
-  db.rsvps.push({ rsvpId: id, createdAt: rsvp.createdAt ?? now, eventId: rsvp.eventId, eventOwnerId: rsvp.eventOwnerId, inviteRecipientId: rsvp.inviteRecipientId, status: rsvp.status ?? 'pending', updatedAt: rsvp.updatedAt ?? now });
-  await saveFallback(db);
-  return id;
+export async function createRsvp(rsvp: NewRsvp): Promise<number> {
+  return transaction(async (tx) => {
+    const id = await tx.rsvps.create(rsvp);
+    await tx.outbox.add({ table: 'rsvps', op: 'create', localId: id, payload: rsvp });
+    return id;
+  });
 }
 
-export async function getRsvpsForEvent(eventId: number): Promise<any[]> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, 'SELECT * FROM rsvps WHERE eventId = ? ORDER BY createdAt;', [eventId]);
-    return res.rows._array as any[];
-  }
-  const db = await loadFallback();
-  return db.rsvps.filter(r => r.eventId === eventId).sort((a,b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+/** Create the rsvp for (eventId, inviteRecipientId) or update the existing one's status. */
+export async function upsertRsvp(rsvp: NewRsvp): Promise<number> {
+  return transaction((tx) => tx.rsvps.upsert(rsvp));
 }
 
-export async function getRsvpsForUser(userId: number): Promise<any[]> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, 'SELECT * FROM rsvps WHERE inviteRecipientId = ? ORDER BY createdAt DESC;', [userId]);
-    return res.rows._array as any[];
-  }
-  const db = await loadFallback();
-  return db.rsvps.filter(r => r.inviteRecipientId === userId).sort((a,b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-}
-
-export async function updateRsvp(rsvpId: number, fields: { status?: string; updatedAt?: string }) {
-  await tryInitNative();
-  const now = new Date().toISOString();
-  if (useNative && nativeDb) {
-    const sets: string[] = [];
-    const params: any[] = [];
-    if (fields.status !== undefined) { sets.push('status = ?'); params.push(fields.status); }
-    params.push(fields.updatedAt ?? now);
-    params.push(rsvpId);
-    const sql = `UPDATE rsvps SET ${sets.join(', ')} , updatedAt = ? WHERE rsvpId = ?;`;
-    await execSqlNative(nativeDb, sql, params);
-    return;
-  }
-  const db = await loadFallback();
-  const idx = db.rsvps.findIndex(r => r.rsvpId === rsvpId);
-  if (idx === -1) return;
-  db.rsvps[idx] = { ...db.rsvps[idx], ...fields, updatedAt: fields.updatedAt ?? now };
-  await saveFallback(db);
+export async function getRsvpsForEvent(eventId: number): Promise<Rsvp[]> {
+  return (await repos()).rsvps.getForEvent(eventId);
+}
+
+export async function getRsvpsForUser(userId: number): Promise<Rsvp[]> {
+  return (await repos()).rsvps.getForRecipient(userId);
+}
+
+export async function updateRsvp(rsvpId: number, fields: RsvpUpdate) {
+  await transaction(async (tx) => {
+    const before = await tx.rsvps.getById(rsvpId);
+    await tx.rsvps.update(rsvpId, fields);
+    await tx.outbox.add({ table: 'rsvps', op: 'update', localId: rsvpId, payload: fields, base: baseOf(before, fields) });
+  });
 }
 
 export async function deleteRsvp(rsvpId: number) {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    await execSqlNative(nativeDb, 'DELETE FROM rsvps WHERE rsvpId = ?;', [rsvpId]);
-    return;
-  }
-  const db = await loadFallback();
-  db.rsvps = db.rsvps.filter(r => r.rsvpId !== rsvpId);
-  await saveFallback(db);
+  await transaction(async (tx) => {
+    await tx.rsvps.delete(rsvpId);
+    await tx.outbox.add({ table: 'rsvps', op: 'delete', localId: rsvpId });
+  });
 }
 
 // Events
-export async function createEvent(event: { userId: number; title?: string; eventTitle?: string; description?: string; startTime: string; endTime?: string; date?: string; isEvent?: number; recurring?: number }): Promise<number> {
-  await tryInitNative();
-  const title = event.eventTitle ?? event.title ?? null;
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, 'INSERT INTO events (userId, eventTitle, description, startTime, endTime, isEvent, recurring, date) VALUES (?, ?, ?, ?, ?, ?, ?, ?);', [event.userId, title, event.description ?? null, event.startTime, event.endTime ?? null, event.isEvent ?? 1, event.recurring ?? 0, event.date ?? null]);
-    return res.insertId ?? 0;
-  }
-  const db = await loadFallback();
-  const id = nextId(db, 'events');
-  db.events.push({ eventId: id, userId: event.userId, eventTitle: title, description: event.description ?? null, startTime: event.startTime, endTime: event.endTime ?? null, date: event.date ?? null, isEvent: event.isEvent ?? 1, recurring: event.recurring ?? 0 });
-  await saveFallback(db);
+/** createEvent within a transaction the caller already holds, e.g. to store a whole import at once. */
+export async function createEventIn(tx: Repositories, event: NewEvent): Promise<number> {
+  const id = await tx.events.create(event);
+  await tx.outbox.add({ table: 'events', op: 'create', localId: id, payload: event });
   return id;
 }
 
-export async function getEventsForUser(userId: number): Promise<any[]> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, 'SELECT * FROM events WHERE userId = ? ORDER BY startTime;', [userId]);
-    return res.rows._array as any[];
-  }
-  const db = await loadFallback();
-  return db.events.filter(e => e.userId === userId).sort((a,b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+/** updateEvent within a transaction the caller already holds. */
+export async function updateEventIn(tx: Repositories, eventId: number, fields: EventUpdate) {
+  const [before] = await tx.events.getByIds([eventId]);
+  await tx.events.update(eventId, fields);
+  await tx.outbox.add({ table: 'events', op: 'update', localId: eventId, payload: fields, base: baseOf(before ?? null, fields) });
+}
+
+/** deleteEvent within a transaction the caller already holds. */
+export async function deleteEventIn(tx: Repositories, eventId: number) {
+  await tx.events.delete(eventId);
+  await tx.outbox.add({ table: 'events', op: 'delete', localId: eventId });
+}
+
+export async function createEvent(event: NewEvent): Promise<number> {
+  return transaction((tx) => createEventIn(tx, event));
+}
+
+export async function getEventsForUser(userId: number): Promise<Event[]> {
+  return (await repos()).events.getForUser(userId);
+}
+
+/**
+ * Events (and/or free time) of several users that start within [from, to). `from`/`to` are compared
+ * as text against the stored `startTime`, so format them the same way (recurrence.formatLocalTime).
+ */
+export async function getEventsInRange(userIds: number[], from: string, to: string, filter?: EventFilter): Promise<Event[]> {
+  if (userIds.length === 0) return [];
+  return (await repos()).events.getInRange(userIds, from, to, filter);
+}
+
+/**
+ * Like getEventsInRange, with repeating events expanded into their occurrences within [from, to)
+ * (recurrence.ts). Each occurrence keeps its series' eventId.
+ */
+export async function getOccurrencesInRange(userIds: number[], from: string, to: string, filter?: EventFilter): Promise<Occurrence[]> {
+  return expandEvents(await getEventsInRange(userIds, from, to, filter), from, to);
+}
+
+export async function getEventsByIds(eventIds: number[]): Promise<Event[]> {
+  if (eventIds.length === 0) return [];
+  return (await repos()).events.getByIds(Array.from(new Set(eventIds)));
+}
+
+/** The user's event imported with iCalendar `uid` (see ics.ts), or null. */
+export async function getEventByUid(userId: number, uid: string): Promise<Event | null> {
+  return (await repos()).events.getByUid(userId, uid);
 }
 
 export async function deleteEvent(eventId: number) {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    await execSqlNative(nativeDb, 'DELETE FROM events WHERE eventId = ?;', [eventId]);
-    return;
-  }
-  const db = await loadFallback();
-  db.events = db.events.filter(e => e.eventId !== eventId);
-  await saveFallback(db);
-}
-
-export async function updateEvent(eventId: number, fields: { eventTitle?: string | null; description?: string | null; startTime?: string; endTime?: string | null; date?: string | null; recurring?: number | null; isEvent?: number | null; }) {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const sets: string[] = [];
-    const params: any[] = [];
-    if (fields.eventTitle !== undefined) { sets.push('eventTitle = ?'); params.push(fields.eventTitle); }
-    if (fields.description !== undefined) { sets.push('description = ?'); params.push(fields.description); }
-    if (fields.startTime !== undefined) { sets.push('startTime = ?'); params.push(fields.startTime); }
-    if (fields.endTime !== undefined) { sets.push('endTime = ?'); params.push(fields.endTime); }
-    if (fields.date !== undefined) { sets.push('date = ?'); params.push(fields.date); }
-    if (fields.recurring !== undefined) { sets.push('recurring = ?'); params.push(fields.recurring); }
-    if (fields.isEvent !== undefined) { sets.push('isEvent = ?'); params.push(fields.isEvent); }
-    if (sets.length === 0) return;
-    params.push(eventId);
-    const sql = `UPDATE events SET ${sets.join(', ')} WHERE eventId = ?;`;
-    await execSqlNative(nativeDb, sql, params);
-    return;
-  }
-  const db = await loadFallback();
-  const idx = db.events.findIndex(e => e.eventId === eventId);
-  if (idx === -1) return;
-  db.events[idx] = { ...db.events[idx], ...fields } as any;
-  await saveFallback(db);
+  await transaction((tx) => deleteEventIn(tx, eventId));
+}
+
+export async function updateEvent(eventId: number, fields: EventUpdate) {
+  await transaction((tx) => updateEventIn(tx, eventId, fields));
+}
+
+// Which occurrences of a repeating event an edit or delete applies to
+export type OccurrenceScope = 'this' | 'following' | 'all';
+
+async function seriesOf(tx: Repositories, eventId: number): Promise<Event> {
+  const [series] = await tx.events.getByIds([eventId]);
+  if (!series) throw new Error(`db: event ${eventId} not found`);
+  return series;
+}
+
+/**
+ * Delete one occurrence of a repeating event (identified by its recurrenceId, see recurrence.ts),
+ * it and all later ones, or the whole series. A single occurrence becomes an exception date; the
+ * series is ended before the occurrence for 'following'.
+ */
+export async function deleteOccurrence(eventId: number, recurrenceId: string, scope: OccurrenceScope) {
+  await transaction(async (tx) => {
+    const series = await seriesOf(tx, eventId);
+    if (scope === 'this') return updateEventIn(tx, eventId, { exdates: [...series.exdates, recurrenceId] });
+    const head = scope === 'following' ? splitSeries(series, recurrenceId).head : null;
+    if (head) return updateEventIn(tx, eventId, head);
+    return deleteEventIn(tx, eventId);
+  });
+}
+
+/**
+ * Edit one occurrence of a repeating event, it and all later ones, or the whole series. Resolves to
+ * the eventId now holding the edited occurrence(s).
+ *
+ * - 'this': the occurrence becomes an exception date and `fields` (with its times) a standalone event
+ * - 'following': the series ends before the occurrence and a new series starts from it; an unchanged
+ *   `rrule` carries on with what is left of the old one (COUNT, exception dates)
+ * - 'all': the series itself is updated, so `fields` should hold the times of its first occurrence
+ *
+ * Invitations stay with the original series.
+ */
+export async function updateOccurrence(eventId: number, recurrenceId: string, scope: OccurrenceScope, fields: EventUpdate): Promise<number> {
+  return transaction(async (tx) => {
+    const series = await seriesOf(tx, eventId);
+    const { head, tail } = splitSeries(series, recurrenceId);
+    const unchanged = fields.rrule === undefined || fields.rrule === series.rrule;
+    // exception dates move along with the occurrences when the time of day changes
+    const shifted = (exdates: string[], from: string) => {
+      const by = fields.startTime ? Date.parse(fields.startTime) - Date.parse(from) : 0;
+      return by ? exdates.map((x) => new Date(Date.parse(x) + by).toISOString()) : exdates;
+    };
+
+    // from the first occurrence on is the whole series
+    if (scope === 'all' || (scope === 'following' && !head)) {
+      const moved = unchanged && fields.exdates === undefined && series.exdates.length > 0;
+      await updateEventIn(tx, eventId, moved ? { ...fields, exdates: shifted(series.exdates, series.startTime) } : fields);
+      return eventId;
+    }
+
+    const repeat: Partial<NewEvent> =
+      scope === 'this' ? { rrule: null, recurring: 0, exdates: null }
+      : unchanged ? { rrule: tail.rrule, exdates: shifted(tail.exdates, recurrenceId), recurring: fields.recurring ?? series.recurring }
+      : { rrule: fields.rrule, recurring: fields.recurring ?? series.recurring, exdates: null };
+    const value = <T>(field: T | null | undefined, current: T | null) => (field === undefined ? current : field) ?? undefined;
+
+    const id = await createEventIn(tx, {
+      userId: series.userId,
+      eventTitle: value(fields.eventTitle, series.eventTitle),
+      description: value(fields.description, series.description),
+      startTime: fields.startTime ?? recurrenceId,
+      endTime: value(fields.endTime, series.endTime),
+      date: value(fields.date, series.date),
+      isEvent: value(fields.isEvent, series.isEvent),
+      ...repeat,
+    });
+    await updateEventIn(tx, eventId, scope === 'this' ? { exdates: [...series.exdates, recurrenceId] } : head!);
+    return id;
+  });
+}
+
+/** Create or update the local copy of a backend event, matched by serverId. Resolves to the local eventId. */
+export async function upsertEvent(event: EventUpsert): Promise<number> {
+  return transaction((tx) => tx.events.upsert(event));
 }
 
 // Free time (stored as events with isEvent = 0)
-export async function addFreeTime(slot: { userId: number; startTime: string; endTime?: string; }): Promise<number> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, 'INSERT INTO events (userId, startTime, endTime, isEvent) VALUES (?, ?, ?, 0);', [slot.userId, slot.startTime, slot.endTime ?? null]);
-    return res.insertId ?? 0;
-  }
-  const db = await loadFallback();
-  const id = nextId(db, 'events');
-  db.events.push({ eventId: id, userId: slot.userId, startTime: slot.startTime, endTime: slot.endTime ?? null, isEvent: 0, eventTitle: null, description: null, date: null, recurring: 0 });
-  await saveFallback(db);
-  return id;
+export async function addFreeTime(slot: NewFreeTime): Promise<number> {
+  return createEvent({ userId: slot.userId, startTime: slot.startTime, endTime: slot.endTime, isEvent: false, rrule: slot.rrule, recurring: slot.recurring });
 }
 
-export async function getFreeTimeForUser(userId: number): Promise<any[]> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, 'SELECT * FROM events WHERE userId = ? AND isEvent = 0 ORDER BY startTime;', [userId]);
-    return res.rows._array as any[];
-  }
-  const db = await loadFallback();
-  return db.events.filter(f => f.userId === userId && (f.isEvent === 0 || f.isEvent === false)).sort((a,b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+export async function getFreeTimeForUser(userId: number): Promise<FreeTimeSlot[]> {
+  return (await repos()).events.getFreeTimeForUser(userId);
 }
 
 // Notifications
-export async function addNotification(note: { userId: number; notifMsg: string; notifType?: string; timestamp?: string; }): Promise<number> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, 'INSERT INTO notifications (userId, notifMsg, notifType, createdAt) VALUES (?, ?, ?, ?);', [note.userId, note.notifMsg, note.notifType ?? null, note.timestamp ?? new Date().toISOString()]);
-    return res.insertId ?? 0;
-  }
-  const db = await loadFallback();
-  const id = nextId(db, 'notifications');
-  db.notifications.push({ notificationId: id, userId: note.userId, notifMsg: note.notifMsg, notifType: note.notifType ?? null, createdAt: note.timestamp ?? new Date().toISOString() });
-  await saveFallback(db);
-  return id;
+export async function addNotification(note: NewNotification): Promise<number> {
+  return transaction((tx) => tx.notifications.create(note));
 }
 
-export async function getNotificationsForUser(userId: number): Promise<any[]> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, 'SELECT * FROM notifications WHERE userId = ? ORDER BY createdAt DESC;', [userId]);
-    return res.rows._array as any[];
-  }
-  const db = await loadFallback();
-  return db.notifications.filter(n => n.userId === userId).sort((a,b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+export async function getNotificationsForUser(userId: number): Promise<Notification[]> {
+  return (await repos()).notifications.getForUser(userId);
 }
 
 export async function clearNotificationsForUser(userId: number) {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    await execSqlNative(nativeDb, 'DELETE FROM notifications WHERE userId = ?;', [userId]);
-    return;
-  }
-  const db = await loadFallback();
-  db.notifications = db.notifications.filter(n => n.userId !== userId);
-  await saveFallback(db);
+  await transaction((tx) => tx.notifications.clearForUser(userId));
+}
+
+// Tombstones
+export async function getTombstones(table: TombstoneTable): Promise<Tombstone[]> {
+  return (await repos()).tombstones.list(table);
+}
+
+/** Undo a delete, as long as the tombstone has not been purged. A delete not pushed yet is dropped from the outbox. */
+export async function restoreDeleted(table: TombstoneTable, id: number) {
+  await transaction(async (tx) => {
+    await tx.tombstones.restore(table, id);
+    // notifications are never pushed; pending creates and updates of the row still have to go out
+    if (table !== 'notifications') await tx.outbox.removeFor(table, [id], 'delete');
+  });
+}
+
+export async function acknowledgeTombstones(table: TombstoneTable, ids: number[]) {
+  if (ids.length === 0) return;
+  await transaction((tx) => tx.tombstones.acknowledge(table, ids));
+}
+
+/** Permanently remove every tombstone the backend has acknowledged. Resolves to the number removed. */
+export async function purgeTombstones(): Promise<number> {
+  return transaction((tx) => tx.tombstones.purge());
+}
+
+// Outbox
+/** Local changes not yet pushed to the backend, oldest first. */
+export async function getOutbox(): Promise<OutboxEntry[]> {
+  return (await repos()).outbox.list();
+}
+
+/** Server id of a local event, rsvp or friendship (deleted ones included); null until pushed. */
+export async function getServerId(table: ServerIdTable, localId: number): Promise<number | null> {
+  return (await repos()).outbox.serverIdOf(table, localId);
+}
+
+/** Forget pending pushes for the given rows, e.g. local-only test data that must never reach the backend. */
+export async function discardOutbox(table: OutboxTable, localIds: number[]) {
+  if (localIds.length === 0) return;
+  await transaction((tx) => tx.outbox.removeFor(table, localIds));
+}
+
+// Sync cursors
+/** Where incremental sync left off for a feed, or null if it has never completed. */
+export async function getSyncCursor(key: string): Promise<string | null> {
+  return (await repos()).cursors.get(key);
+}
+
+/** Make the next sync download everything again. */
+export async function resetSyncCursors() {
+  await transaction((tx) => tx.cursors.clear());
+}
+
+// Conflicts
+/** Concurrent edits found by sync, newest first (see conflicts.ts). */
+export async function getConflicts(): Promise<Conflict[]> {
+  return (await repos()).conflicts.list();
+}
+
+export async function markConflictResolved(conflictId: number, resolution: ConflictResolution) {
+  await transaction((tx) => tx.conflicts.resolve(conflictId, resolution));
+}
+
+export async function clearResolvedConflicts() {
+  await transaction((tx) => tx.conflicts.clearResolved());
 }
 
 // Preferences
-export async function setUserPreferences(userId: number, prefs: { theme?: number; notificationEnabled?: number; colorScheme?: number; }) {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const existing: any = await execSqlNative(nativeDb, 'SELECT * FROM user_prefs WHERE userId = ?;', [userId]);
-    if ((existing.rows._array as any[]).length > 0) {
-      const sets: string[] = [];
-      const params: any[] = [];
-      if (prefs.theme !== undefined) { sets.push('theme = ?'); params.push(prefs.theme); }
-      if (prefs.notificationEnabled !== undefined) { sets.push('notificationEnabled = ?'); params.push(prefs.notificationEnabled); }
-      if (prefs.colorScheme !== undefined) { sets.push('colorScheme = ?'); params.push(prefs.colorScheme); }
-      if (sets.length === 0) return;
-      params.push(new Date().toISOString());
-      params.push(userId);
-      await execSqlNative(nativeDb, `UPDATE user_prefs SET ${sets.join(', ')} , updatedAt = ? WHERE userId = ?;`, [...params]);
-    } else {
-      await execSqlNative(nativeDb, 'INSERT INTO user_prefs (userId, theme, notificationEnabled, colorScheme, updatedAt) VALUES (?, ?, ?, ?, ?);', [userId, prefs.theme ?? 0, prefs.notificationEnabled ?? 1, prefs.colorScheme ?? 0, new Date().toISOString()]);
-    }
-    return;
-  }
-  const db = await loadFallback();
-  const idx = db.user_prefs.findIndex((p: any) => p.userId === userId);
-  if (idx !== -1) {
-    db.user_prefs[idx] = { ...db.user_prefs[idx], ...prefs, updatedAt: new Date().toISOString() };
-  } else {
-    db.user_prefs.push({ preferenceId: nextId(db, 'user_prefs'), userId, theme: prefs.theme ?? 0, notificationEnabled: prefs.notificationEnabled ?? 1, colorScheme: prefs.colorScheme ?? 0, updatedAt: new Date().toISOString() });
-  }
-  await saveFallback(db);
+export async function setUserPreferences(userId: number, prefs: UserPrefsUpdate) {
+  await transaction(async (tx) => {
+    const before = await tx.userPrefs.getForUser(userId);
+    await tx.userPrefs.set(userId, prefs);
+    // preferences are addressed by user id on the backend
+    await tx.outbox.add({ table: 'user_prefs', op: 'update', localId: userId, payload: prefs, base: baseOf(before, prefs) });
+  });
 }
 
-export async function getUserPreferences(userId: number): Promise<any | null> {
-  await tryInitNative();
-  if (useNative && nativeDb) {
-    const res: any = await execSqlNative(nativeDb, 'SELECT * FROM user_prefs WHERE userId = ?;', [userId]);
-    return (res.rows._array as any[])[0] ?? null;
-  }
-  const db = await loadFallback();
-  return db.user_prefs.find((p: any) => p.userId === userId) ?? null;
+export async function getUserPreferences(userId: number): Promise<UserPrefs | null> {
+  return (await repos()).userPrefs.getForUser(userId);
 }
 
 export default {
   init_db,
+  setBackend,
+  transaction,
+  subscribe,
+  flush,
+  invalidateCache,
+  resetDatabase,
   
   // Users
   createUser,
   getUserById,
   getUserByUsername,
+  upsertUser,
   updateUser,
   deleteUser,
 
   // Friends
   sendFriendRequest,
+  upsertFriendship,
   respondFriendRequest,
   getFriendRequestsForUser,
   getFriendsForUser,
@@ -578,8 +582,15 @@ export default {
   // Events
   createEvent,
   getEventsForUser,
+  getEventsInRange,
+  getOccurrencesInRange,
+  getEventsByIds,
+  getEventByUid,
   deleteEvent,
   updateEvent,
+  deleteOccurrence,
+  updateOccurrence,
+  upsertEvent,
   
   // Free time
   addFreeTime,
@@ -592,15 +603,35 @@ export default {
   
   // RSVPs
   createRsvp,
+  upsertRsvp,
   getRsvpsForEvent,
   getRsvpsForUser,
   updateRsvp,
   deleteRsvp,
   
+  // Tombstones
+  getTombstones,
+  restoreDeleted,
+  acknowledgeTombstones,
+  purgeTombstones,
+  
+  // Outbox
+  getOutbox,
+  getServerId,
+  discardOutbox,
+  
+  // Sync cursors
+  getSyncCursor,
+  resetSyncCursors,
+  
+  // Conflicts
+  getConflicts,
+  markConflictResolved,
+  clearResolvedConflicts,
+  
   // Preferences
   setUserPreferences,
   getUserPreferences,
   
   getStatus,
 };
-
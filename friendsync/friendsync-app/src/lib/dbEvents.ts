@@ -0,0 +1,136 @@
+/*
+  dbEvents.ts — Table change notifications for the local DB
+
+  `observeRepositories()` wraps any backend's repositories so every mutating call reports which
+  tables it touched. db.ts wraps the active backend once and routes the reports through a
+  ChangeEmitter; inside `transaction()` they are held back until the transaction has committed.
+  Reads are not wrapped.
+*/
+
+import { Repositories, DbTable, DbChange, DbChangeOp, TOMBSTONE_KEYS, TombstoneTable } from './dbTypes';
+
+export type ChangeListener = (change: DbChange) => void;
+
+export interface ChangeEmitter {
+  subscribe(tables: DbTable | DbTable[] | '*', listener: ChangeListener): () => void;
+  emit(changes: DbChange[]): void;
+}
+
+export const ALL_TABLES: DbTable[] = ['users', 'friends', 'events', 'rsvps', 'notifications', 'user_prefs', 'outbox', 'conflicts'];
+
+const TOMBSTONE_TABLES = Object.keys(TOMBSTONE_KEYS) as TombstoneTable[];
+
+const change = (op: DbChangeOp, ...tables: DbTable[]) => (): DbChange[] => tables.map((table) => ({ table, op }));
+
+// Which tables each mutating repository method writes to. Methods not listed here are reads.
+const MUTATIONS: { [R in keyof Repositories]: { [method: string]: (args: any[]) => DbChange[] } } = {
+  users: {
+    create: change('insert', 'users'),
+    upsert: change('update', 'users'),
+    update: change('update', 'users'),
+    // deleting a user cascades
+    delete: change('delete', ...ALL_TABLES),
+  },
+  friends: {
+    create: change('insert', 'friends'),
+    setStatus: change('update', 'friends'),
+    removeAccepted: change('delete', 'friends'),
+    upsert: change('update', 'friends'),
+  },
+  events: {
+    create: change('insert', 'events'),
+    update: change('update', 'events'),
+    delete: change('delete', 'events'),
+    upsert: change('update', 'events'),
+  },
+  rsvps: {
+    create: change('insert', 'rsvps'),
+    update: change('update', 'rsvps'),
+    delete: change('delete', 'rsvps'),
+    upsert: change('update', 'rsvps'),
+  },
+  notifications: {
+    create: change('insert', 'notifications'),
+    clearForUser: change('delete', 'notifications'),
+    upsert: change('update', 'notifications'),
+  },
+  userPrefs: {
+    set: change('update', 'user_prefs'),
+  },
+  tombstones: {
+    // restoring a row makes it visible to reads again
+    restore: ([table]) => [{ table, op: 'insert' }],
+    markDeleted: ([table]) => [{ table, op: 'delete' }],
+    markDeletedByServerIds: ([table]) => [{ table, op: 'delete' }],
+    purge: change('delete', ...TOMBSTONE_TABLES),
+  },
+  outbox: {
+    add: change('insert', 'outbox'),
+    remove: change('delete', 'outbox'),
+    removeFor: change('delete', 'outbox'),
+    fail: change('update', 'outbox'),
+    setServerId: ([table]) => [{ table, op: 'update' }],
+  },
+  // bookkeeping only, nothing on screen depends on it
+  cursors: {},
+  conflicts: {
+    add: change('insert', 'conflicts'),
+    resolve: change('update', 'conflicts'),
+    clearResolved: change('delete', 'conflicts'),
+  },
+};
+
+/**
+ * Wrap `repos` so each successful mutation calls `report` with the tables it changed.
+ */
+export function observeRepositories(repos: Repositories, report: (changes: DbChange[]) => void): Repositories {
+  const observed: any = {};
+  (Object.keys(repos) as (keyof Repositories)[]).forEach((name) => {
+    const source: any = repos[name];
+    const wrapped: any = {};
+    Object.keys(source).forEach((method) => {
+      const describe = MUTATIONS[name]?.[method];
+      const fn = source[method];
+      wrapped[method] = typeof fn !== 'function' || !describe ? fn : async (...args: any[]) => {
+        const result = await fn.apply(source, args);
+        report(describe(args));
+        return result;
+      };
+    });
+    observed[name] = wrapped;
+  });
+  return observed as Repositories;
+}
+
+export function createChangeEmitter(): ChangeEmitter {
+  const listeners = new Set<{ tables: Set<DbTable> | null; listener: ChangeListener }>();
+
+  return {
+    subscribe(tables, listener) {
+      const entry = { tables: tables === '*' ? null : new Set(Array.isArray(tables) ? tables : [tables]), listener };
+      listeners.add(entry);
+      return () => { listeners.delete(entry); };
+    },
+    emit(changes) {
+      // one notification per table and op, however many rows a batch touched
+      const seen = new Set<string>();
+      const unique = changes.filter((c) => {
+        const key = `${c.table}:${c.op}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      for (const c of unique) {
+        for (const { tables, listener } of Array.from(listeners)) {
+          if (tables && !tables.has(c.table)) continue;
+          try {
+            listener(c);
+          } catch (e) {
+            // eslint-disable-next-line no-console
+            console.warn('db: change listener failed', e);
+          }
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,649 @@
+/*
+  dbFallback.ts — Repositories backed by the JS snapshot (web, Expo Go, or when expo-sqlite is missing)
+
+  The whole database is a single DBShape object persisted via `src/lib/storage.ts` under key
+  `fallback_db_v1`. Repositories read and mutate it through a SnapshotStore. The snapshot carries its
+  own schema version and is upgraded by `dbMigrations.ts` when loaded.
+
+  The app uses a cached store: the snapshot is parsed once, kept in memory, and written back at most
+  once per save window no matter how many mutations happened in between.
+*/
+
+import storage from './storage';
+import { migrateFallback } from './dbMigrations';
+import {
+  Row, Repositories, DbBackend, FreeTimeSlot, RsvpUpdate, TombstoneTable, TOMBSTONE_KEYS,
+  normalizeUser, normalizeEvent, normalizeFreeTime, normalizeFriendship, normalizeRsvp, normalizeNotification, normalizeUserPrefs,
+  normalizeTombstone, normalizeOutboxEntry, normalizeConflict,
+  flagToInt, toRecurrence, Recurrence,
+} from './dbTypes';
+
+export const FALLBACK_KEY = 'fallback_db_v1';
+
+export type DBShape = {
+  __meta__: { nextId: { [table: string]: number }; schemaVersion?: number };
+  users: Row[];
+  friends: Row[];
+  rsvps: Row[];
+  user_prefs: Row[];
+  events: Row[];
+  notifications: Row[];
+  outbox: Row[];
+  sync_cursors: Row[];
+  conflicts: Row[];
+};
+
+export const FALLBACK_TABLES = ['users', 'friends', 'rsvps', 'user_prefs', 'events', 'notifications', 'outbox', 'sync_cursors', 'conflicts'] as const;
+
+export function emptyShape(): DBShape {
+  return {
+    __meta__: { nextId: {} },
+    users: [],
+    friends: [],
+    rsvps: [],
+    user_prefs: [],
+    events: [],
+    notifications: [],
+    outbox: [],
+    sync_cursors: [],
+    conflicts: [],
+  };
+}
+
+/** Empty every table of `db` in place, keeping its schema version. */
+export function clearShape(db: DBShape) {
+  const { schemaVersion } = db.__meta__;
+  Object.assign(db, emptyShape());
+  db.__meta__.schemaVersion = schemaVersion;
+}
+
+export async function loadFallback(): Promise<DBShape> {
+  const val = await storage.getItem<any>(FALLBACK_KEY);
+  if (!val) {
+    const initial = emptyShape();
+    migrateFallback(initial);
+    await storage.setItem(FALLBACK_KEY, initial);
+    return initial;
+  }
+
+  // Normalize/validate existing shape to avoid runtime undefineds from older or corrupted data
+  const normalized: DBShape = {
+    __meta__: (val.__meta__ && typeof val.__meta__ === 'object') ? val.__meta__ : { nextId: {} },
+    users: Array.isArray(val.users) ? val.users : [],
+    friends: Array.isArray(val.friends) ? val.friends : [],
+    rsvps: Array.isArray(val.rsvps) ? val.rsvps : [],
+    user_prefs: Array.isArray(val.user_prefs) ? val.user_prefs : [],
+    events: Array.isArray(val.events) ? val.events : [],
+    notifications: Array.isArray(val.notifications) ? val.notifications : [],
+    outbox: Array.isArray(val.outbox) ? val.outbox : [],
+    sync_cursors: Array.isArray(val.sync_cursors) ? val.sync_cursors : [],
+    conflicts: Array.isArray(val.conflicts) ? val.conflicts : [],
+  };
+
+  // Ensure __meta__.nextId exists and is an object
+  if (!normalized.__meta__ || typeof normalized.__meta__ !== 'object') normalized.__meta__ = { nextId: {} };
+  if (!normalized.__meta__.nextId || typeof normalized.__meta__.nextId !== 'object') normalized.__meta__.nextId = {};
+
+  // Initialize missing nextId counters for known tables
+  FALLBACK_TABLES.forEach((tbl) => {
+    if (normalized.__meta__.nextId[tbl] == null) {
+      // compute a safe next id (max existing id + 1) if possible
+      try {
+        const arr = normalized[tbl];
+        let max = 0;
+        arr.forEach((r: any) => {
+          const idKeys = Object.keys(r).filter(k => /id$/i.test(k));
+          idKeys.forEach((k) => { const v = Number(r[k]); if (!Number.isNaN(v) && v > max) max = v; });
+        });
+        normalized.__meta__.nextId[tbl] = max + 1;
+      } catch {
+        normalized.__meta__.nextId[tbl] = 1;
+      }
+    }
+  });
+
+  migrateFallback(normalized);
+
+  // Persist a normalized copy back to storage to prevent repeated fixes
+  try { await storage.setItem(FALLBACK_KEY, normalized); } catch (e) { /* non-fatal */ }
+
+  return normalized;
+}
+
+export async function saveFallback(db: DBShape) {
+  await storage.setItem(FALLBACK_KEY, db);
+}
+
+export function nextId(db: DBShape, table: keyof DBShape): number {
+  const n = db.__meta__.nextId[table as string] ?? 1;
+  db.__meta__.nextId[table as string] = n + 1;
+  return n;
+}
+
+/**
+ * Access to a DBShape. `mutate` runs `fn` against the current snapshot and persists the result.
+ */
+export interface SnapshotStore {
+  read(): Promise<DBShape>;
+  mutate<T>(fn: (db: DBShape) => T): Promise<T>;
+}
+
+export interface CachedSnapshotStore extends SnapshotStore {
+  // Write any pending changes now
+  flush(): Promise<void>;
+  // Drop the in-memory copy (and any unsaved changes) so the next read reloads from storage
+  invalidate(): Promise<void>;
+}
+
+/**
+ * Store that keeps the snapshot in memory after the first load and persists it write-behind.
+ * The first mutation after a save starts a timer; everything that changes before it fires is
+ * written in that one save.
+ */
+export function createCachedStore(saveDelayMs = 300): CachedSnapshotStore {
+  let cache: DBShape | null = null;
+  let loading: Promise<DBShape> | null = null;
+  let dirty = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let saving: Promise<void> = Promise.resolve();
+
+  const read = async () => {
+    if (cache) return cache;
+    if (!loading) {
+      loading = loadFallback().then((db) => { cache = db; return db; });
+      // allow a retry if storage was unavailable
+      loading.catch(() => { loading = null; });
+    }
+    return loading;
+  };
+
+  const flush = async () => {
+    if (timer) { clearTimeout(timer); timer = null; }
+    if (dirty && cache) {
+      const snapshot = cache;
+      dirty = false;
+      saving = saving.then(() => saveFallback(snapshot)).catch((e) => {
+        // keep the data in memory and try again on the next change
+        dirty = true;
+        // eslint-disable-next-line no-console
+        console.warn('db: failed to persist fallback snapshot', e);
+      });
+    }
+    await saving;
+  };
+
+  const markDirty = () => {
+    dirty = true;
+    if (!timer) timer = setTimeout(() => { timer = null; flush(); }, saveDelayMs);
+  };
+
+  return {
+    read,
+    async mutate(fn) {
+      const db = await read();
+      const result = fn(db);
+      markDirty();
+      return result;
+    },
+    flush,
+    async invalidate() {
+      if (timer) { clearTimeout(timer); timer = null; }
+      dirty = false;
+      await saving;
+      cache = null;
+      loading = null;
+    },
+  };
+}
+
+/** Store over a plain object that is never persisted */
+export function createMemoryStore(initial: DBShape): SnapshotStore {
+  let current = initial;
+  return {
+    read: async () => current,
+    mutate: async (fn) => fn(current),
+  };
+}
+
+/**
+ * Run `fn` against a private copy of the snapshot and swap the copy in with a single `mutate` if it
+ * resolves. If `fn` throws nothing is written, so the stored snapshot is left exactly as it was.
+ * Readers and the debounced save only ever see the snapshot before or after the whole transaction.
+ */
+export async function runFallbackTransaction<T>(store: SnapshotStore, fn: (tx: Repositories) => Promise<T>): Promise<T> {
+  const draft: DBShape = JSON.parse(JSON.stringify(await store.read()));
+  const result = await fn(createFallbackRepositories(createMemoryStore(draft)));
+  await store.mutate((db) => { Object.assign(db, draft); });
+  return result;
+}
+
+export function createFallbackBackend(store: CachedSnapshotStore): DbBackend {
+  return {
+    name: 'fallback',
+    adapter: null,
+    repos: createFallbackRepositories(store),
+    // loading the snapshot applies pending migrations
+    init: async () => (await store.read()).__meta__.schemaVersion ?? 0,
+    transaction: (fn) => runFallbackTransaction(store, fn),
+    flush: store.flush,
+    invalidate: store.invalidate,
+    reset: () => store.mutate(clearShape),
+  };
+}
+
+// Same wording as SQLite so callers can handle both backends alike
+function uniqueViolation(table: string, columns: string[]): Error {
+  return new Error(`UNIQUE constraint failed: ${columns.map(c => `${table}.${c}`).join(', ')}`);
+}
+
+const live = (r: Row) => !r.deletedAt;
+
+// Mirrors REVIVE_ACKED in dbNative.ts: only deletes the backend has already seen are undone by an upsert
+function reviveAcked(r: Row) {
+  if (r.deleteAckedAt) r.deletedAt = null;
+  r.deleteAckedAt = null;
+}
+
+const samePair = (r: Row, a: number, b: number) => (r.userId === a && r.friendId === b) || (r.userId === b && r.friendId === a);
+
+const byStart = (a: Row, b: Row) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
+const byCreatedAsc = (a: Row, b: Row) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+const byCreatedDesc = (a: Row, b: Row) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+export function createFallbackRepositories(store: SnapshotStore): Repositories {
+  return {
+    users: {
+      create: (user) => store.mutate((db) => {
+        const id = nextId(db, 'users');
+        db.users.push({ userId: id, username: user.username, email: user.email });
+        return id;
+      }),
+      async getById(id) {
+        const row = (await store.read()).users.find(u => u.userId === id);
+        return row ? normalizeUser(row) : null;
+      },
+      async getByUsername(username) {
+        const row = (await store.read()).users.find(u => u.username === username);
+        return row ? normalizeUser(row) : null;
+      },
+      upsert: (user) => store.mutate((db) => {
+        const row = { userId: user.userId, username: user.username, email: user.email };
+        const idx = db.users.findIndex(u => u.userId === user.userId);
+        if (idx === -1) db.users.push(row);
+        else db.users[idx] = { ...db.users[idx], ...row };
+        // keep ids handed out by create() clear of the backend's
+        if ((db.__meta__.nextId.users ?? 1) <= user.userId) db.__meta__.nextId.users = user.userId + 1;
+        return user.userId;
+      }),
+      update: (id, fields) => store.mutate((db) => {
+        const idx = db.users.findIndex(u => u.userId === id);
+        if (idx === -1) return;
+        db.users[idx] = { ...db.users[idx], ...fields };
+      }),
+      delete: (id) => store.mutate((db) => {
+        db.users = db.users.filter(u => u.userId !== id);
+        db.friends = db.friends.filter(r => r.userId !== id && r.friendId !== id);
+        db.events = db.events.filter(e => e.userId !== id);
+        db.rsvps = db.rsvps.filter(r => r.eventOwnerId !== id && r.inviteRecipientId !== id);
+        db.notifications = db.notifications.filter(n => n.userId !== id);
+        db.user_prefs = db.user_prefs.filter(p => p.userId !== id);
+      }),
+    },
+
+    friends: {
+      create: (senderId, receiverId) => store.mutate((db) => {
+        const existing = db.friends.find(r => samePair(r, senderId, receiverId));
+        if (existing && live(existing)) throw uniqueViolation('friends', ['userId', 'friendId']);
+        if (existing) {
+          Object.assign(existing, { userId: senderId, friendId: receiverId, status: 'pending', deletedAt: null, deleteAckedAt: null });
+          return existing.friendRowId as number;
+        }
+        const id = nextId(db, 'friends');
+        db.friends.push({ friendRowId: id, userId: senderId, friendId: receiverId, status: 'pending' });
+        return id;
+      }),
+      setStatus: (friendRowId, status) => store.mutate((db) => {
+        const r = db.friends.find(rr => rr.friendRowId === friendRowId);
+        if (r) r.status = status;
+      }),
+      async getPendingFor(userId) {
+        return (await store.read()).friends.filter(r => live(r) && r.friendId === userId && r.status === 'pending').map(normalizeFriendship);
+      },
+      async getAcceptedFor(userId) {
+        return (await store.read()).friends.filter(r => live(r) && r.status === 'accepted' && (r.userId === userId || r.friendId === userId)).map(normalizeFriendship);
+      },
+      removeAccepted: (userA, userB) => store.mutate((db) => {
+        const now = new Date().toISOString();
+        db.friends.forEach((r) => {
+          if (live(r) && r.status === 'accepted' && samePair(r, userA, userB)) r.deletedAt = now;
+        });
+      }),
+      upsert: (userA, userB, status, serverId) => store.mutate((db) => {
+        const existing = (serverId != null && db.friends.find(r => r.serverId === serverId)) || db.friends.find(r => samePair(r, userA, userB));
+        if (existing) {
+          if (status) existing.status = status;
+          if (serverId != null) existing.serverId = serverId;
+          reviveAcked(existing);
+          return existing.friendRowId as number;
+        }
+        const id = nextId(db, 'friends');
+        db.friends.push({ friendRowId: id, serverId: serverId ?? null, userId: userA, friendId: userB, status: status ?? 'pending' });
+        return id;
+      }),
+    },
+
+    events: {
+      create: (event) => store.mutate((db) => {
+        if (event.serverId != null && db.events.some(e => e.serverId === event.serverId)) throw uniqueViolation('events', ['serverId']);
+        const id = nextId(db, 'events');
+        db.events.push({
+          eventId: id,
+          serverId: event.serverId ?? null,
+          userId: event.userId,
+          eventTitle: event.eventTitle ?? event.title ?? null,
+          description: event.description ?? null,
+          startTime: event.startTime,
+          endTime: event.endTime ?? null,
+          date: event.date ?? null,
+          isEvent: flagToInt(event.isEvent, 1),
+          recurring: event.recurring ?? 0,
+          rrule: event.rrule ?? null,
+          exdates: event.exdates ?? null,
+          uid: event.uid ?? null,
+          updatedAt: event.updatedAt ?? new Date().toISOString(),
+          version: event.version ?? 0,
+        });
+        return id;
+      }),
+      async getForUser(userId) {
+        return (await store.read()).events.filter(e => live(e) && e.userId === userId).sort(byStart).map(normalizeEvent);
+      },
+      async getSharedWith(userId) {
+        return (await store.read()).events.filter(e => live(e) && e.userId !== userId && e.serverId != null).sort(byStart).map(normalizeEvent);
+      },
+      async getFreeTimeForUser(userId) {
+        const rows = (await store.read()).events.filter(f => live(f) && f.userId === userId && (f.isEvent === 0 || f.isEvent === false));
+        return rows.sort(byStart).map(normalizeFreeTime) as FreeTimeSlot[];
+      },
+      async getInRange(userIds, from, to, filter) {
+        const users = new Set(userIds);
+        const wantEvent = filter?.isEvent === undefined ? undefined : (filter.isEvent ? 1 : 0);
+        // plain string comparison, same as the SQL backend; repeating events may have occurrences in range
+        const rows = (await store.read()).events.filter(e =>
+          live(e) && users.has(e.userId) && e.startTime < to &&
+          (e.startTime >= from || e.rrule != null || toRecurrence(e.recurring) !== Recurrence.None) &&
+          (wantEvent === undefined || flagToInt(e.isEvent, 1) === wantEvent));
+        return rows.sort((a, b) => String(a.startTime).localeCompare(String(b.startTime))).map(normalizeEvent);
+      },
+      async getByIds(eventIds) {
+        const ids = new Set(eventIds);
+        return (await store.read()).events.filter(e => live(e) && ids.has(e.eventId)).map(normalizeEvent);
+      },
+      async getByUid(userId, uid) {
+        const row = (await store.read()).events.find(e => live(e) && e.userId === userId && e.uid === uid);
+        return row ? normalizeEvent(row) : null;
+      },
+      update: (eventId, fields) => store.mutate((db) => {
+        const idx = db.events.findIndex(e => e.eventId === eventId);
+        if (idx === -1) return;
+        const stored: Row = { ...fields };
+        if (fields.isEvent != null) stored.isEvent = flagToInt(fields.isEvent, 1);
+        db.events[idx] = { ...db.events[idx], ...stored, updatedAt: new Date().toISOString() };
+      }),
+      delete: (eventId) => store.mutate((db) => {
+        const row = db.events.find(e => e.eventId === eventId);
+        if (row && live(row)) row.deletedAt = new Date().toISOString();
+      }),
+      async upsert(event) {
+        const existing = (await store.read()).events.find(e => e.serverId === event.serverId);
+        if (!existing) return this.create(event);
+        await store.mutate((db) => {
+          const row = db.events.find(e => e.eventId === existing.eventId);
+          if (!row) return;
+          Object.assign(row, {
+            userId: event.userId,
+            eventTitle: event.eventTitle ?? event.title ?? null,
+            description: event.description ?? null,
+            startTime: event.startTime,
+            endTime: event.endTime ?? null,
+            date: event.date ?? null,
+            isEvent: flagToInt(event.isEvent, 1),
+            recurring: event.recurring ?? 0,
+            rrule: event.rrule ?? null,
+            exdates: event.exdates ?? null,
+            uid: event.uid ?? null,
+            updatedAt: event.updatedAt ?? new Date().toISOString(),
+          });
+          if (event.version != null) row.version = event.version;
+          reviveAcked(row);
+        });
+        return existing.eventId as number;
+      },
+    },
+
+    rsvps: {
+      create: (rsvp) => store.mutate((db) => {
+        const now = new Date().toISOString();
+        const existing = db.rsvps.find(r => r.eventId === rsvp.eventId && r.inviteRecipientId === rsvp.inviteRecipientId);
+        if (existing && live(existing)) throw uniqueViolation('rsvps', ['eventId', 'inviteRecipientId']);
+        if (existing) {
+          Object.assign(existing, { createdAt: rsvp.createdAt ?? now, eventOwnerId: rsvp.eventOwnerId, status: rsvp.status ?? 'pending', updatedAt: rsvp.updatedAt ?? now, deletedAt: null, deleteAckedAt: null });
+          return existing.rsvpId as number;
+        }
+        const id = nextId(db, 'rsvps');
+        db.rsvps.push({
+          rsvpId: id,
+          serverId: rsvp.serverId ?? null,
+          createdAt: rsvp.createdAt ?? now,
+          eventId: rsvp.eventId,
+          eventOwnerId: rsvp.eventOwnerId,
+          inviteRecipientId: rsvp.inviteRecipientId,
+          status: rsvp.status ?? 'pending',
+          updatedAt: rsvp.updatedAt ?? now,
+          version: rsvp.version ?? 0,
+        });
+        return id;
+      }),
+      async getById(rsvpId) {
+        const row = (await store.read()).rsvps.find(r => live(r) && r.rsvpId === rsvpId);
+        return row ? normalizeRsvp(row) : null;
+      },
+      async getForEvent(eventId) {
+        return (await store.read()).rsvps.filter(r => live(r) && r.eventId === eventId).sort(byCreatedAsc).map(normalizeRsvp);
+      },
+      async getForRecipient(userId) {
+        return (await store.read()).rsvps.filter(r => live(r) && r.inviteRecipientId === userId).sort(byCreatedDesc).map(normalizeRsvp);
+      },
+      update: (rsvpId, fields) => store.mutate((db) => {
+        const idx = db.rsvps.findIndex(r => r.rsvpId === rsvpId);
+        if (idx === -1) return;
+        db.rsvps[idx] = { ...db.rsvps[idx], ...fields, updatedAt: fields.updatedAt ?? new Date().toISOString() };
+      }),
+      delete: (rsvpId) => store.mutate((db) => {
+        const row = db.rsvps.find(r => r.rsvpId === rsvpId);
+        if (row && live(row)) row.deletedAt = new Date().toISOString();
+      }),
+      async upsert(rsvp) {
+        const rows = (await store.read()).rsvps;
+        const existing = (rsvp.serverId != null && rows.find(r => r.serverId === rsvp.serverId))
+          || rows.find(r => r.eventId === rsvp.eventId && r.inviteRecipientId === rsvp.inviteRecipientId);
+        if (!existing) return this.create(rsvp);
+        await store.mutate((db) => {
+          const row = db.rsvps.find(r => r.rsvpId === existing.rsvpId);
+          if (!row) return;
+          if (rsvp.status) row.status = rsvp.status;
+          if (rsvp.serverId != null) row.serverId = rsvp.serverId;
+          if (rsvp.version != null) row.version = rsvp.version;
+          row.eventId = rsvp.eventId;
+          row.updatedAt = rsvp.updatedAt ?? new Date().toISOString();
+          reviveAcked(row);
+        });
+        return existing.rsvpId as number;
+      },
+    },
+
+    notifications: {
+      create: (note) => store.mutate((db) => {
+        const id = nextId(db, 'notifications');
+        db.notifications.push({ notificationId: id, userId: note.userId, notifMsg: note.notifMsg, notifType: note.notifType ?? null, createdAt: note.timestamp ?? new Date().toISOString() });
+        return id;
+      }),
+      async getForUser(userId) {
+        return (await store.read()).notifications.filter(n => live(n) && n.userId === userId).sort(byCreatedDesc).map(normalizeNotification);
+      },
+      clearForUser: (userId) => store.mutate((db) => {
+        const now = new Date().toISOString();
+        db.notifications.forEach((n) => {
+          if (live(n) && n.userId === userId) n.deletedAt = now;
+        });
+      }),
+      upsert: (note) => store.mutate((db) => {
+        const existing = db.notifications.find(n => n.serverId === note.serverId);
+        if (existing) {
+          Object.assign(existing, { userId: note.userId, notifMsg: note.notifMsg, notifType: note.notifType ?? null, createdAt: note.timestamp ?? existing.createdAt });
+          reviveAcked(existing);
+          return existing.notificationId as number;
+        }
+        const id = nextId(db, 'notifications');
+        db.notifications.push({ notificationId: id, serverId: note.serverId, userId: note.userId, notifMsg: note.notifMsg, notifType: note.notifType ?? null, createdAt: note.timestamp ?? new Date().toISOString() });
+        return id;
+      }),
+    },
+
+    userPrefs: {
+      set: (userId, prefs, version) => store.mutate((db) => {
+        const now = new Date().toISOString();
+        const idx = db.user_prefs.findIndex(p => p.userId === userId);
+        if (idx !== -1) {
+          db.user_prefs[idx] = { ...db.user_prefs[idx], ...prefs, updatedAt: now };
+          if (version != null) db.user_prefs[idx].version = version;
+        } else {
+          db.user_prefs.push({ preferenceId: nextId(db, 'user_prefs'), userId, theme: prefs.theme ?? 0, notificationEnabled: prefs.notificationEnabled ?? 1, colorScheme: prefs.colorScheme ?? 0, updatedAt: now, version: version ?? 0 });
+        }
+      }),
+      async getForUser(userId) {
+        const row = (await store.read()).user_prefs.find(p => p.userId === userId);
+        return row ? normalizeUserPrefs(row) : null;
+      },
+    },
+
+    tombstones: {
+      async list(table) {
+        const rows = (await store.read())[table].filter(r => !live(r));
+        return rows.sort((a, b) => String(a.deletedAt).localeCompare(String(b.deletedAt))).map(r => normalizeTombstone(table, r));
+      },
+      restore: (table, id) => store.mutate((db) => {
+        const row = db[table].find(r => r[TOMBSTONE_KEYS[table]] === id);
+        if (row) { row.deletedAt = null; row.deleteAckedAt = null; }
+      }),
+      acknowledge: (table, ids, at) => store.mutate((db) => {
+        const wanted = new Set(ids);
+        const when = at ?? new Date().toISOString();
+        db[table].forEach((r) => {
+          if (!live(r) && wanted.has(r[TOMBSTONE_KEYS[table]])) r.deleteAckedAt = when;
+        });
+      }),
+      markDeleted: (table, localIds) => store.mutate((db) => {
+        const ids = new Set(localIds);
+        const now = new Date().toISOString();
+        db[table].forEach((r) => {
+          if (ids.has(r[TOMBSTONE_KEYS[table]])) { r.deletedAt = r.deletedAt || now; r.deleteAckedAt = now; }
+        });
+      }),
+      markDeletedByServerIds: (table, serverIds) => store.mutate((db) => {
+        const ids = new Set(serverIds);
+        const now = new Date().toISOString();
+        db[table].forEach((r) => {
+          if (r.serverId != null && ids.has(r.serverId)) { r.deletedAt = r.deletedAt || now; r.deleteAckedAt = now; }
+        });
+      }),
+      purge: () => store.mutate((db) => {
+        let removed = 0;
+        for (const table of Object.keys(TOMBSTONE_KEYS) as TombstoneTable[]) {
+          const kept = db[table].filter(r => live(r) || !r.deleteAckedAt);
+          removed += db[table].length - kept.length;
+          db[table] = kept;
+        }
+        return removed;
+      }),
+    },
+
+    outbox: {
+      add: (entry) => store.mutate((db) => {
+        const id = nextId(db, 'outbox');
+        db.outbox.push({ outboxId: id, tableName: entry.table, op: entry.op, localId: entry.localId, payload: entry.payload ?? null, base: entry.base ?? null, createdAt: new Date().toISOString(), attempts: 0, lastError: null });
+        return id;
+      }),
+      async list() {
+        return [...(await store.read()).outbox].sort((a, b) => a.outboxId - b.outboxId).map(normalizeOutboxEntry);
+      },
+      remove: (outboxId) => store.mutate((db) => {
+        db.outbox = db.outbox.filter(o => o.outboxId !== outboxId);
+      }),
+      removeFor: (table, localIds, op) => store.mutate((db) => {
+        const ids = new Set(localIds);
+        db.outbox = db.outbox.filter(o => !(o.tableName === table && ids.has(o.localId) && (!op || o.op === op)));
+      }),
+      fail: (outboxId, error) => store.mutate((db) => {
+        const o = db.outbox.find(r => r.outboxId === outboxId);
+        if (o) { o.attempts = (o.attempts ?? 0) + 1; o.lastError = error; }
+      }),
+      async serverIdOf(table, localId) {
+        const row = (await store.read())[table].find(r => r[TOMBSTONE_KEYS[table]] === localId);
+        return row?.serverId == null ? null : Number(row.serverId);
+      },
+      setServerId: (table, localId, serverId) => store.mutate((db) => {
+        const row = db[table].find(r => r[TOMBSTONE_KEYS[table]] === localId);
+        if (row) row.serverId = serverId;
+      }),
+      async localIdOf(table, serverId) {
+        const row = (await store.read())[table].find(r => r.serverId === serverId);
+        return row ? Number(row[TOMBSTONE_KEYS[table]]) : null;
+      },
+    },
+
+    cursors: {
+      async get(key) {
+        return (await store.read()).sync_cursors.find(c => c.feed === key)?.since ?? null;
+      },
+      set: (key, since) => store.mutate((db) => {
+        const now = new Date().toISOString();
+        const row = db.sync_cursors.find(c => c.feed === key);
+        if (row) { row.since = since; row.updatedAt = now; } else db.sync_cursors.push({ feed: key, since, updatedAt: now });
+      }),
+      clear: () => store.mutate((db) => {
+        db.sync_cursors = [];
+      }),
+    },
+
+    conflicts: {
+      add: (conflict) => store.mutate((db) => {
+        const id = nextId(db, 'conflicts');
+        const now = new Date().toISOString();
+        db.conflicts.push({
+          conflictId: id,
+          tableName: conflict.table,
+          localId: conflict.localId,
+          fields: conflict.fields,
+          base: conflict.base ?? null,
+          local: conflict.local,
+          remote: conflict.remote,
+          detectedAt: now,
+          resolution: conflict.resolution ?? null,
+          resolvedAt: conflict.resolution ? now : null,
+        });
+        return id;
+      }),
+      async list() {
+        return [...(await store.read()).conflicts].sort((a, b) => b.conflictId - a.conflictId).map(normalizeConflict);
+      },
+      resolve: (conflictId, resolution) => store.mutate((db) => {
+        const c = db.conflicts.find(r => r.conflictId === conflictId);
+        if (c) { c.resolution = resolution; c.resolvedAt = new Date().toISOString(); }
+      }),
+      clearResolved: () => store.mutate((db) => {
+        db.conflicts = db.conflicts.filter(c => !c.resolvedAt);
+      }),
+    },
+  };
+}
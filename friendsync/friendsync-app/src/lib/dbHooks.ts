@@ -0,0 +1,91 @@
+/*
+  dbHooks.ts — React hooks over db.ts that re-query when their tables change
+
+  Each hook runs its query on mount and whenever its arguments change, then again after any write
+  to the tables it reads (local edits, committed transactions, or a background sync). Several writes
+  in a row cause a single re-query.
+*/
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import db, { Conflict, DbTable, Notification } from './db';
+
+export type DbQueryState<T> = {
+  data: T | null;
+  loading: boolean;
+  error: unknown;
+  // Run the query again now (e.g. pull-to-refresh)
+  reload: () => Promise<void>;
+};
+
+/**
+ * Run `query` and keep its result current. `deps` are the values the query depends on, as with
+ * useEffect; `tables` are the tables whose changes should trigger a re-query.
+ */
+export function useDbQuery<T>(tables: DbTable[], query: () => Promise<T>, deps: unknown[]): DbQueryState<T> {
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  const mountedRef = useRef(true);
+  // only the newest run may update state
+  const runSeq = useRef(0);
+  const scheduled = useRef(false);
+
+  const reload = useCallback(async () => {
+    const seq = ++runSeq.current;
+    setLoading(true);
+    try {
+      if (!db.getStatus().initialized) await db.init_db();
+      const result = await queryRef.current();
+      if (mountedRef.current && seq === runSeq.current) {
+        setData(result);
+        setError(null);
+      }
+    } catch (e) {
+      if (mountedRef.current && seq === runSeq.current) setError(e);
+    } finally {
+      if (mountedRef.current && seq === runSeq.current) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => { mountedRef.current = false; };
+  }, []);
+
+  useEffect(() => {
+    reload();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps);
+
+  const tableKey = tables.join(',');
+  useEffect(() => {
+    return db.subscribe(tables, () => {
+      if (scheduled.current) return;
+      scheduled.current = true;
+      // let the rest of a burst of writes land before re-querying
+      setTimeout(() => {
+        scheduled.current = false;
+        reload();
+      }, 0);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tableKey, reload]);
+
+  return { data, loading, error, reload };
+}
+
+export function useNotifications(userId: number | null | undefined): DbQueryState<Notification[]> {
+  return useDbQuery(
+    ['notifications'],
+    async () => (userId == null ? [] : db.getNotificationsForUser(userId)),
+    [userId],
+  );
+}
+
+/** Conflicts found by sync, newest first. */
+export function useConflicts(): DbQueryState<Conflict[]> {
+  return useDbQuery(['conflicts'], () => db.getConflicts(), []);
+}
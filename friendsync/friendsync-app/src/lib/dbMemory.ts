@@ -0,0 +1,37 @@
+/*
+  dbMemory.ts — In-memory db backend for tests and tooling
+
+  Uses the same repositories as the fallback backend over a snapshot that is never persisted, so
+  db.ts (and seedDummyData) can run under jest without expo-sqlite or AsyncStorage:
+
+    setBackend(createMemoryBackend());
+    await init_db();
+*/
+
+import { DbBackend } from './dbTypes';
+import { DBShape, emptyShape, clearShape, createMemoryStore, createFallbackRepositories, runFallbackTransaction } from './dbFallback';
+import { migrateFallback } from './dbMigrations';
+
+export type MemoryBackend = DbBackend & {
+  // The live snapshot, for assertions
+  snapshot(): Promise<DBShape>;
+};
+
+export function createMemoryBackend(initial: DBShape = emptyShape()): MemoryBackend {
+  const store = createMemoryStore(initial);
+  return {
+    name: 'memory',
+    adapter: null,
+    repos: createFallbackRepositories(store),
+    async init() {
+      const db = await store.read();
+      migrateFallback(db);
+      return db.__meta__.schemaVersion ?? 0;
+    },
+    transaction: (fn) => runFallbackTransaction(store, fn),
+    flush: async () => {},
+    invalidate: async () => {},
+    reset: () => store.mutate(clearShape),
+    snapshot: () => store.read(),
+  };
+}
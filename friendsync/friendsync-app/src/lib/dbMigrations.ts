@@ -0,0 +1,279 @@
+/*
+  dbMigrations.ts — Versioned schema migrations for both db backends
+
+  Every migration has a native half (SQL statements run against expo-sqlite) and a fallback half
+  (an in-place transform of the JSON DBShape) so the two backends always describe the same schema.
+
+  - native: the applied versions are recorded in the `schema_version` table
+  - fallback: the current version is stored in `__meta__.schemaVersion` of the snapshot
+
+  To change the schema append a migration with the next version number. Never edit or reorder a
+  migration that has already shipped — existing installs will not run it again.
+*/
+
+import type { SqlExecutor } from './dbNative';
+import type { DBShape } from './dbFallback';
+import type { Row } from './dbTypes';
+
+export type Migration = {
+  version: number;
+  description: string;
+  native: string[];
+  fallback: (db: DBShape) => void;
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'initial schema',
+    // IF NOT EXISTS so installs created before migrations existed pass through unchanged
+    native: [
+      `CREATE TABLE IF NOT EXISTS events (
+        eventId INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT,
+        description TEXT,
+        endTime TEXT,
+        eventTitle TEXT,
+        isEvent INTEGER,
+        recurring INTEGER,
+        startTime TEXT,
+        userId INTEGER
+      );`,
+      `CREATE TABLE IF NOT EXISTS friends (
+        friendRowId INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId INTEGER,
+        friendId INTEGER,
+        status TEXT
+      );`,
+      `CREATE TABLE IF NOT EXISTS rsvps (
+        rsvpId INTEGER PRIMARY KEY AUTOINCREMENT,
+        createdAt TEXT,
+        eventId INTEGER,
+        eventOwnerId INTEGER,
+        inviteRecipientId INTEGER,
+        status TEXT,
+        updatedAt TEXT
+      );`,
+      `CREATE TABLE IF NOT EXISTS user_prefs (
+        preferenceId INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId INTEGER,
+        colorScheme INTEGER,
+        notificationEnabled INTEGER,
+        theme INTEGER,
+        updatedAt TEXT
+      );`,
+      `CREATE TABLE IF NOT EXISTS users (
+        userId INTEGER PRIMARY KEY AUTOINCREMENT,
+        email TEXT,
+        username TEXT
+      );`,
+      `CREATE TABLE IF NOT EXISTS notifications (
+        notificationId INTEGER PRIMARY KEY AUTOINCREMENT,
+        notifMsg TEXT,
+        userId INTEGER,
+        notifType TEXT,
+        createdAt TEXT
+      );`,
+    ],
+    // the snapshot tables are created by emptyShape()/loadFallback()
+    fallback: () => {},
+  },
+  {
+    version: 2,
+    description: 'indexes for range and invite queries',
+    native: [
+      'CREATE INDEX IF NOT EXISTS idx_events_user_start ON events (userId, startTime);',
+      'CREATE INDEX IF NOT EXISTS idx_rsvps_recipient ON rsvps (inviteRecipientId);',
+    ],
+    // the snapshot has no indexes
+    fallback: () => {},
+  },
+  {
+    version: 3,
+    description: 'event server ids and unique friend pairs / rsvps',
+    // existing duplicates are collapsed first or the unique indexes cannot be created
+    native: [
+      'ALTER TABLE events ADD COLUMN serverId INTEGER;',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_events_server ON events (serverId);',
+      `UPDATE friends SET status = 'accepted'
+        WHERE status <> 'accepted' AND EXISTS (
+          SELECT 1 FROM friends f WHERE f.status = 'accepted'
+            AND MIN(f.userId, f.friendId) = MIN(friends.userId, friends.friendId)
+            AND MAX(f.userId, f.friendId) = MAX(friends.userId, friends.friendId)
+        );`,
+      `DELETE FROM friends WHERE friendRowId NOT IN (
+        SELECT MIN(friendRowId) FROM friends GROUP BY MIN(userId, friendId), MAX(userId, friendId)
+      );`,
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_friends_pair ON friends (MIN(userId, friendId), MAX(userId, friendId));',
+      // keep the newest rsvp of each (event, recipient)
+      `DELETE FROM rsvps WHERE rsvpId NOT IN (
+        SELECT MAX(rsvpId) FROM rsvps GROUP BY eventId, inviteRecipientId
+      );`,
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_rsvps_event_recipient ON rsvps (eventId, inviteRecipientId);',
+    ],
+    fallback: (db) => {
+      const pairKey = (r: Row) => `${Math.min(r.userId, r.friendId)}:${Math.max(r.userId, r.friendId)}`;
+      const friends = new Map<string, Row>();
+      for (const r of db.friends) {
+        const key = pairKey(r);
+        const kept = friends.get(key);
+        if (!kept) friends.set(key, r);
+        else if (r.status === 'accepted') kept.status = 'accepted';
+      }
+      db.friends = Array.from(friends.values());
+
+      const rsvps = new Map<string, Row>();
+      for (const r of db.rsvps) rsvps.set(`${r.eventId}:${r.inviteRecipientId}`, r);
+      db.rsvps = Array.from(rsvps.values());
+    },
+  },
+  {
+    version: 4,
+    description: 'tombstones for events, rsvps, friends and notifications',
+    native: ['events', 'rsvps', 'friends', 'notifications'].flatMap((table) => [
+      `ALTER TABLE ${table} ADD COLUMN deletedAt TEXT;`,
+      `ALTER TABLE ${table} ADD COLUMN deleteAckedAt TEXT;`,
+    ]),
+    // a missing deletedAt already reads as "not deleted"
+    fallback: () => {},
+  },
+  {
+    version: 5,
+    description: 'outbox and server ids for rsvps and friends',
+    native: [
+      'ALTER TABLE rsvps ADD COLUMN serverId INTEGER;',
+      'ALTER TABLE friends ADD COLUMN serverId INTEGER;',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_rsvps_server ON rsvps (serverId);',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_friends_server ON friends (serverId);',
+      `CREATE TABLE IF NOT EXISTS outbox (
+        outboxId INTEGER PRIMARY KEY AUTOINCREMENT,
+        tableName TEXT NOT NULL,
+        op TEXT NOT NULL,
+        localId INTEGER NOT NULL,
+        payload TEXT,
+        createdAt TEXT,
+        attempts INTEGER DEFAULT 0,
+        lastError TEXT
+      );`,
+    ],
+    // snapshots saved before this version have no outbox array
+    fallback: (db) => {
+      if (!Array.isArray(db.outbox)) db.outbox = [];
+    },
+  },
+  {
+    version: 6,
+    description: 'notification server ids and incremental sync cursors',
+    native: [
+      'ALTER TABLE notifications ADD COLUMN serverId INTEGER;',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_server ON notifications (serverId);',
+      `CREATE TABLE IF NOT EXISTS sync_cursors (
+        feed TEXT PRIMARY KEY,
+        since TEXT,
+        updatedAt TEXT
+      );`,
+    ],
+    fallback: (db) => {
+      if (!Array.isArray(db.sync_cursors)) db.sync_cursors = [];
+    },
+  },
+  {
+    version: 7,
+    description: 'row versions, outbox bases and conflicts',
+    native: [
+      'ALTER TABLE events ADD COLUMN updatedAt TEXT;',
+      'ALTER TABLE events ADD COLUMN version INTEGER DEFAULT 0;',
+      'ALTER TABLE rsvps ADD COLUMN version INTEGER DEFAULT 0;',
+      'ALTER TABLE user_prefs ADD COLUMN version INTEGER DEFAULT 0;',
+      'ALTER TABLE outbox ADD COLUMN base TEXT;',
+      `CREATE TABLE IF NOT EXISTS conflicts (
+        conflictId INTEGER PRIMARY KEY AUTOINCREMENT,
+        tableName TEXT NOT NULL,
+        localId INTEGER NOT NULL,
+        fields TEXT,
+        base TEXT,
+        local TEXT,
+        remote TEXT,
+        detectedAt TEXT,
+        resolution TEXT,
+        resolvedAt TEXT
+      );`,
+    ],
+    // a missing version reads as 0
+    fallback: (db) => {
+      if (!Array.isArray(db.conflicts)) db.conflicts = [];
+    },
+  },
+  {
+    version: 8,
+    description: 'event recurrence rules and exception dates',
+    native: [
+      'ALTER TABLE events ADD COLUMN rrule TEXT;',
+      'ALTER TABLE events ADD COLUMN exdates TEXT;',
+    ],
+    // missing rules read as the legacy `recurring` code, missing exdates as none
+    fallback: () => {},
+  },
+  {
+    version: 9,
+    description: 'event UIDs for calendar import',
+    native: [
+      'ALTER TABLE events ADD COLUMN uid TEXT;',
+      'CREATE INDEX IF NOT EXISTS idx_events_user_uid ON events (userId, uid);',
+    ],
+    fallback: () => {},
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Apply every native migration newer than the recorded version. Returns the resulting version.
+ */
+export async function migrateNative(sql: SqlExecutor): Promise<number> {
+  await sql.run(`CREATE TABLE IF NOT EXISTS schema_version (
+    version INTEGER PRIMARY KEY,
+    appliedAt TEXT
+  );`);
+  const rows = await sql.all('SELECT MAX(version) AS version FROM schema_version;');
+  let current = Number(rows[0]?.version ?? 0);
+  if (current > LATEST_SCHEMA_VERSION) {
+    // eslint-disable-next-line no-console
+    console.warn(`db: native schema v${current} is newer than this build (v${LATEST_SCHEMA_VERSION})`);
+    return current;
+  }
+
+  for (const m of MIGRATIONS) {
+    if (m.version <= current) continue;
+    // statements and the version record land together so a failed migration is retried as a whole
+    await sql.transaction(async (tx) => {
+      for (const stmt of m.native) await tx.run(stmt);
+      await tx.run('INSERT INTO schema_version (version, appliedAt) VALUES (?, ?);', [m.version, new Date().toISOString()]);
+    });
+    current = m.version;
+    // eslint-disable-next-line no-console
+    console.log(`db: applied migration v${m.version} (${m.description})`);
+  }
+  return current;
+}
+
+/**
+ * Bring a fallback snapshot up to date in place. Returns true if anything was applied.
+ */
+export function migrateFallback(db: DBShape): boolean {
+  const current = db.__meta__.schemaVersion ?? 0;
+  if (current > LATEST_SCHEMA_VERSION) {
+    // eslint-disable-next-line no-console
+    console.warn(`db: fallback schema v${current} is newer than this build (v${LATEST_SCHEMA_VERSION})`);
+    return false;
+  }
+
+  let changed = false;
+  for (const m of MIGRATIONS) {
+    if (m.version <= current) continue;
+    m.fallback(db);
+    db.__meta__.schemaVersion = m.version;
+    changed = true;
+  }
+  return changed;
+}
@@ -0,0 +1,575 @@
+/*
+  dbNative.ts — Repositories backed by native expo-sqlite
+
+  The repositories only talk to a small SqlExecutor (`all` for reads, `run` for writes, `transaction`
+  to group writes atomically) so they do not care which flavour of expo-sqlite handle sits underneath:
+
+  - async:  the current expo-sqlite API (`openDatabaseAsync` / `runAsync` / `getAllAsync` / `withTransactionAsync`)
+  - legacy: the older WebSQL-style handle returned by `openDatabase` (`transaction(cb)` + `executeSql`)
+*/
+
+import { migrateNative } from './dbMigrations';
+import {
+  Row, Repositories, DbBackend, FreeTimeSlot, TombstoneTable, TOMBSTONE_KEYS,
+  normalizeUser, normalizeEvent, normalizeFreeTime, normalizeFriendship, normalizeRsvp, normalizeNotification, normalizeUserPrefs,
+  normalizeTombstone, normalizeOutboxEntry, normalizeConflict,
+  flagToInt,
+} from './dbTypes';
+
+export type SqlRunResult = { insertId: number; changes: number };
+
+export type NativeAdapter = 'async' | 'legacy';
+
+export interface SqlExecutor {
+  all(sql: string, params?: any[]): Promise<Row[]>;
+  run(sql: string, params?: any[]): Promise<SqlRunResult>;
+  // Runs `fn` in a single SQLite transaction; rolled back if `fn` throws
+  transaction<T>(fn: (tx: SqlExecutor) => Promise<T>): Promise<T>;
+}
+
+// Result sets differ between expo-sqlite versions: `rows._array` (WebSQL style) or a plain array
+function rowsOf(res: any): Row[] {
+  if (Array.isArray(res?.rows)) return res.rows as Row[];
+  return (res?.rows?._array ?? []) as Row[];
+}
+
+function execSqlLegacy(database: any, sql: string, params: any[] = []): Promise<any> {
+  return new Promise((resolve, reject) => {
+    if (!database || typeof database.transaction !== 'function') return reject(new Error('Invalid native DB handle'));
+    database.transaction((tx: any) => {
+      tx.executeSql(sql, params, (_: any, result: any) => resolve(result), (_: any, err: any) => { reject(err); return false; });
+    }, (txErr: any) => reject(txErr));
+  });
+}
+
+/** Wrap a handle from the current expo-sqlite API (`openDatabaseAsync` / `openDatabaseSync`). */
+export function createAsyncExecutor(database: any): SqlExecutor {
+  const bind = (handle: any) => ({
+    all: async (sql: string, params: any[] = []) => ((await handle.getAllAsync(sql, params)) ?? []) as Row[],
+    run: async (sql: string, params: any[] = []): Promise<SqlRunResult> => {
+      const res: any = await handle.runAsync(sql, params);
+      return { insertId: res?.lastInsertRowId ?? 0, changes: res?.changes ?? 0 };
+    },
+  });
+
+  // withTransactionAsync does not hand out a separate connection, so statements inside it simply use
+  // the same handle; nested transactions join the outer one
+  const joined: SqlExecutor = { ...bind(database), transaction: (inner) => inner(joined) };
+
+  return {
+    ...bind(database),
+    async transaction(fn) {
+      let result: any;
+      if (typeof database.withExclusiveTransactionAsync === 'function') {
+        // exclusive: statements issued elsewhere in the app cannot slip into this transaction
+        await database.withExclusiveTransactionAsync(async (txn: any) => {
+          const txExecutor: SqlExecutor = { ...bind(txn), transaction: (inner) => inner(txExecutor) };
+          result = await fn(txExecutor);
+        });
+      } else {
+        await database.withTransactionAsync(async () => { result = await fn(joined); });
+      }
+      return result;
+    },
+  };
+}
+
+/** Open friendsync.db with whichever expo-sqlite API is available. Returns null if none is. */
+export async function openNativeExecutor(SQLite: any, name: string): Promise<{ adapter: NativeAdapter; sql: SqlExecutor } | null> {
+  let handle: any = null;
+  if (typeof SQLite.openDatabaseAsync === 'function') handle = await SQLite.openDatabaseAsync(name);
+  else if (typeof SQLite.openDatabaseSync === 'function') handle = SQLite.openDatabaseSync(name);
+  if (handle && typeof handle.getAllAsync === 'function' && typeof handle.runAsync === 'function') {
+    return { adapter: 'async', sql: createAsyncExecutor(handle) };
+  }
+
+  // expo-sqlite < 14 (or the `expo-sqlite/legacy` entry point)
+  const legacy = typeof SQLite.openDatabase === 'function' ? SQLite.openDatabase(name) : handle;
+  if (legacy && typeof legacy.transaction === 'function') {
+    return { adapter: 'legacy', sql: createLegacyExecutor(legacy) };
+  }
+  return null;
+}
+
+/** Wrap a WebSQL-style handle (one with `.transaction(cb)`) in an executor. */
+export function createLegacyExecutor(database: any): SqlExecutor {
+  const executor: SqlExecutor = {
+    async all(sql, params = []) {
+      return rowsOf(await execSqlLegacy(database, sql, params));
+    },
+    async run(sql, params = []) {
+      const res: any = await execSqlLegacy(database, sql, params);
+      return { insertId: res?.insertId ?? 0, changes: res?.rowsAffected ?? 0 };
+    },
+    async transaction(fn) {
+      // WebSQL callbacks cannot span awaits, so without the promise-based transactionAsync the group
+      // is wrapped in BEGIN/COMMIT by hand. db.ts queues writes, so none can slip in between.
+      if (typeof database.transactionAsync !== 'function') {
+        const txExecutor: SqlExecutor = { ...executor, transaction: (inner) => inner(txExecutor) };
+        await executor.run('BEGIN');
+        try {
+          const result = await fn(txExecutor);
+          await executor.run('COMMIT');
+          return result;
+        } catch (e) {
+          await executor.run('ROLLBACK').catch(() => undefined);
+          throw e;
+        }
+      }
+      let result: any;
+      await database.transactionAsync(async (tx: any) => {
+        const txExecutor: SqlExecutor = {
+          all: async (sql, params = []) => rowsOf(await tx.executeSqlAsync(sql, params)),
+          run: async (sql, params = []) => {
+            const res: any = await tx.executeSqlAsync(sql, params);
+            return { insertId: res?.insertId ?? 0, changes: res?.rowsAffected ?? 0 };
+          },
+          // already inside a transaction
+          transaction: (inner) => inner(txExecutor),
+        };
+        result = await fn(txExecutor);
+      }, false);
+      return result;
+    },
+  };
+  return executor;
+}
+
+// SQLite caps bound parameters per statement (999 on older builds)
+const MAX_IN_PARAMS = 500;
+
+function chunk<T>(arr: T[], size = MAX_IN_PARAMS): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+// Upserts from the backend bring back rows whose delete it has already seen, but not deletes still to be sent
+const REVIVE_ACKED = 'deletedAt = CASE WHEN deleteAckedAt IS NULL THEN deletedAt END, deleteAckedAt = NULL';
+
+const placeholders = (n: number) => new Array(n).fill('?').join(', ');
+
+const json = (v: unknown) => (v == null ? null : JSON.stringify(v));
+
+// Build the `col = ?` list for an UPDATE from the defined keys of `fields`
+function setClause(fields: Row, columns: string[]): { sets: string[]; params: any[] } {
+  const sets: string[] = [];
+  const params: any[] = [];
+  columns.forEach((c) => {
+    if (fields[c] !== undefined) { sets.push(`${c} = ?`); params.push(fields[c]); }
+  });
+  return { sets, params };
+}
+
+export function createNativeRepositories(sql: SqlExecutor): Repositories {
+  return {
+    users: {
+      async create(user) {
+        const res = await sql.run('INSERT INTO users (email, username) VALUES (?, ?);', [user.email, user.username]);
+        return res.insertId;
+      },
+      async getById(id) {
+        const rows = await sql.all('SELECT * FROM users WHERE userId = ?;', [id]);
+        return rows[0] ? normalizeUser(rows[0]) : null;
+      },
+      async getByUsername(username) {
+        const rows = await sql.all('SELECT * FROM users WHERE username = ?;', [username]);
+        return rows[0] ? normalizeUser(rows[0]) : null;
+      },
+      async upsert(user) {
+        await sql.run(
+          `INSERT INTO users (userId, email, username) VALUES (?, ?, ?)
+            ON CONFLICT(userId) DO UPDATE SET email = excluded.email, username = excluded.username;`,
+          [user.userId, user.email, user.username],
+        );
+        return user.userId;
+      },
+      async update(id, fields) {
+        const { sets, params } = setClause(fields, ['username', 'email']);
+        if (sets.length === 0) return;
+        await sql.run(`UPDATE users SET ${sets.join(', ')} WHERE userId = ?;`, [...params, id]);
+      },
+      async delete(id) {
+        await sql.run('DELETE FROM friends WHERE userId = ? OR friendId = ?;', [id, id]);
+        await sql.run('DELETE FROM events WHERE userId = ?;', [id]);
+        await sql.run('DELETE FROM rsvps WHERE eventOwnerId = ? OR inviteRecipientId = ?;', [id, id]);
+        await sql.run('DELETE FROM notifications WHERE userId = ?;', [id]);
+        await sql.run('DELETE FROM user_prefs WHERE userId = ?;', [id]);
+        await sql.run('DELETE FROM users WHERE userId = ?;', [id]);
+      },
+    },
+
+    friends: {
+      async create(senderId, receiverId) {
+        const dead = await sql.all(
+          'SELECT friendRowId FROM friends WHERE deletedAt IS NOT NULL AND ((userId = ? AND friendId = ?) OR (userId = ? AND friendId = ?));',
+          [senderId, receiverId, receiverId, senderId],
+        );
+        if (dead[0]) {
+          await sql.run(
+            "UPDATE friends SET userId = ?, friendId = ?, status = 'pending', deletedAt = NULL, deleteAckedAt = NULL WHERE friendRowId = ?;",
+            [senderId, receiverId, dead[0].friendRowId],
+          );
+          return Number(dead[0].friendRowId);
+        }
+        const res = await sql.run("INSERT INTO friends (userId, friendId, status) VALUES (?, ?, 'pending');", [senderId, receiverId]);
+        return res.insertId;
+      },
+      async setStatus(friendRowId, status) {
+        await sql.run('UPDATE friends SET status = ? WHERE friendRowId = ?;', [status, friendRowId]);
+      },
+      async getPendingFor(userId) {
+        const rows = await sql.all("SELECT * FROM friends WHERE friendId = ? AND status = 'pending' AND deletedAt IS NULL;", [userId]);
+        return rows.map(normalizeFriendship);
+      },
+      async getAcceptedFor(userId) {
+        const rows = await sql.all(`
+            SELECT * FROM friends
+            WHERE status = 'accepted' AND (userId = ? OR friendId = ?) AND deletedAt IS NULL;
+        `, [userId, userId]);
+        return rows.map(normalizeFriendship);
+      },
+      async removeAccepted(userA, userB) {
+        await sql.run(`
+            UPDATE friends SET deletedAt = ?
+            WHERE status = 'accepted' AND deletedAt IS NULL AND
+                ((userId = ? AND friendId = ?) OR (userId = ? AND friendId = ?));
+        `, [new Date().toISOString(), userA, userB, userB, userA]);
+      },
+      async upsert(userA, userB, status, serverId) {
+        let rows = serverId == null ? [] : await sql.all('SELECT friendRowId FROM friends WHERE serverId = ?;', [serverId]);
+        if (!rows[0]) {
+          rows = await sql.all(
+            'SELECT friendRowId FROM friends WHERE (userId = ? AND friendId = ?) OR (userId = ? AND friendId = ?);',
+            [userA, userB, userB, userA],
+          );
+        }
+        if (rows[0]) {
+          const { sets, params } = setClause({ status, serverId: serverId ?? undefined }, ['status', 'serverId']);
+          await sql.run(`UPDATE friends SET ${[...sets, REVIVE_ACKED].join(', ')} WHERE friendRowId = ?;`, [...params, rows[0].friendRowId]);
+          return Number(rows[0].friendRowId);
+        }
+        const res = await sql.run(
+          'INSERT INTO friends (userId, friendId, status, serverId) VALUES (?, ?, ?, ?);',
+          [userA, userB, status ?? 'pending', serverId ?? null],
+        );
+        return res.insertId;
+      },
+    },
+
+    events: {
+      async create(event) {
+        const title = event.eventTitle ?? event.title ?? null;
+        const res = await sql.run(
+          'INSERT INTO events (userId, eventTitle, description, startTime, endTime, isEvent, recurring, rrule, exdates, uid, date, serverId, updatedAt, version) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);',
+          [event.userId, title, event.description ?? null, event.startTime, event.endTime ?? null, flagToInt(event.isEvent, 1), event.recurring ?? 0, event.rrule ?? null, json(event.exdates), event.uid ?? null, event.date ?? null, event.serverId ?? null, event.updatedAt ?? new Date().toISOString(), event.version ?? 0],
+        );
+        return res.insertId;
+      },
+      async getForUser(userId) {
+        const rows = await sql.all('SELECT * FROM events WHERE userId = ? AND deletedAt IS NULL ORDER BY startTime;', [userId]);
+        return rows.map(normalizeEvent);
+      },
+      async getSharedWith(userId) {
+        const rows = await sql.all('SELECT * FROM events WHERE userId <> ? AND serverId IS NOT NULL AND deletedAt IS NULL ORDER BY startTime;', [userId]);
+        return rows.map(normalizeEvent);
+      },
+      async getFreeTimeForUser(userId) {
+        const rows = await sql.all('SELECT * FROM events WHERE userId = ? AND isEvent = 0 AND deletedAt IS NULL ORDER BY startTime;', [userId]);
+        return rows.map(normalizeFreeTime) as FreeTimeSlot[];
+      },
+      async getInRange(userIds, from, to, filter) {
+        const out: Row[] = [];
+        for (const ids of chunk(userIds)) {
+          const params: any[] = [...ids, from, to, to];
+          // a repeating event can have occurrences in range however long ago it started
+          let where = `userId IN (${placeholders(ids.length)}) AND deletedAt IS NULL AND ((startTime >= ? AND startTime < ?) OR ((rrule IS NOT NULL OR recurring IN (1, 7, 30)) AND startTime < ?))`;
+          if (filter?.isEvent !== undefined) { where += ' AND isEvent = ?'; params.push(filter.isEvent ? 1 : 0); }
+          out.push(...await sql.all(`SELECT * FROM events WHERE ${where} ORDER BY startTime;`, params));
+        }
+        return out.sort((a, b) => String(a.startTime).localeCompare(String(b.startTime))).map(normalizeEvent);
+      },
+      async getByIds(eventIds) {
+        const out: Row[] = [];
+        for (const ids of chunk(eventIds)) {
+          out.push(...await sql.all(`SELECT * FROM events WHERE eventId IN (${placeholders(ids.length)}) AND deletedAt IS NULL;`, ids));
+        }
+        return out.map(normalizeEvent);
+      },
+      async getByUid(userId, uid) {
+        const rows = await sql.all('SELECT * FROM events WHERE userId = ? AND uid = ? AND deletedAt IS NULL LIMIT 1;', [userId, uid]);
+        return rows[0] ? normalizeEvent(rows[0]) : null;
+      },
+      async update(eventId, fields) {
+        const stored = {
+          ...fields,
+          isEvent: fields.isEvent == null ? fields.isEvent : flagToInt(fields.isEvent, 1),
+          exdates: fields.exdates === undefined ? undefined : json(fields.exdates),
+        };
+        const { sets, params } = setClause(stored, ['eventTitle', 'description', 'startTime', 'endTime', 'date', 'recurring', 'rrule', 'exdates', 'isEvent']);
+        if (sets.length === 0) return;
+        await sql.run(`UPDATE events SET ${sets.join(', ')}, updatedAt = ? WHERE eventId = ?;`, [...params, new Date().toISOString(), eventId]);
+      },
+      async delete(eventId) {
+        await sql.run('UPDATE events SET deletedAt = ? WHERE eventId = ? AND deletedAt IS NULL;', [new Date().toISOString(), eventId]);
+      },
+      async upsert(event) {
+        const rows = await sql.all('SELECT eventId FROM events WHERE serverId = ?;', [event.serverId]);
+        if (!rows[0]) return this.create(event);
+        await sql.run(
+          `UPDATE events SET userId = ?, eventTitle = ?, description = ?, startTime = ?, endTime = ?, isEvent = ?, recurring = ?, rrule = ?, exdates = ?, uid = ?, date = ?, updatedAt = ?, version = COALESCE(?, version), ${REVIVE_ACKED} WHERE eventId = ?;`,
+          [event.userId, event.eventTitle ?? event.title ?? null, event.description ?? null, event.startTime, event.endTime ?? null, flagToInt(event.isEvent, 1), event.recurring ?? 0, event.rrule ?? null, json(event.exdates), event.uid ?? null, event.date ?? null, event.updatedAt ?? new Date().toISOString(), event.version ?? null, rows[0].eventId],
+        );
+        return Number(rows[0].eventId);
+      },
+    },
+
+    rsvps: {
+      async create(rsvp) {
+        const now = new Date().toISOString();
+        const dead = await sql.all('SELECT rsvpId FROM rsvps WHERE eventId = ? AND inviteRecipientId = ? AND deletedAt IS NOT NULL;', [rsvp.eventId, rsvp.inviteRecipientId]);
+        if (dead[0]) {
+          await sql.run(
+            'UPDATE rsvps SET createdAt = ?, eventOwnerId = ?, status = ?, updatedAt = ?, deletedAt = NULL, deleteAckedAt = NULL WHERE rsvpId = ?;',
+            [rsvp.createdAt ?? now, rsvp.eventOwnerId, rsvp.status ?? 'pending', rsvp.updatedAt ?? now, dead[0].rsvpId],
+          );
+          return Number(dead[0].rsvpId);
+        }
+        const res = await sql.run(
+          'INSERT INTO rsvps (createdAt, eventId, eventOwnerId, inviteRecipientId, status, updatedAt, serverId, version) VALUES (?, ?, ?, ?, ?, ?, ?, ?);',
+          [rsvp.createdAt ?? now, rsvp.eventId, rsvp.eventOwnerId, rsvp.inviteRecipientId, rsvp.status ?? 'pending', rsvp.updatedAt ?? now, rsvp.serverId ?? null, rsvp.version ?? 0],
+        );
+        return res.insertId;
+      },
+      async getById(rsvpId) {
+        const rows = await sql.all('SELECT * FROM rsvps WHERE rsvpId = ? AND deletedAt IS NULL;', [rsvpId]);
+        return rows[0] ? normalizeRsvp(rows[0]) : null;
+      },
+      async getForEvent(eventId) {
+        const rows = await sql.all('SELECT * FROM rsvps WHERE eventId = ? AND deletedAt IS NULL ORDER BY createdAt;', [eventId]);
+        return rows.map(normalizeRsvp);
+      },
+      async getForRecipient(userId) {
+        const rows = await sql.all('SELECT * FROM rsvps WHERE inviteRecipientId = ? AND deletedAt IS NULL ORDER BY createdAt DESC;', [userId]);
+        return rows.map(normalizeRsvp);
+      },
+      async update(rsvpId, fields) {
+        const { sets, params } = setClause(fields, ['status']);
+        sets.push('updatedAt = ?');
+        params.push(fields.updatedAt ?? new Date().toISOString());
+        await sql.run(`UPDATE rsvps SET ${sets.join(', ')} WHERE rsvpId = ?;`, [...params, rsvpId]);
+      },
+      async delete(rsvpId) {
+        await sql.run('UPDATE rsvps SET deletedAt = ? WHERE rsvpId = ? AND deletedAt IS NULL;', [new Date().toISOString(), rsvpId]);
+      },
+      async upsert(rsvp) {
+        let rows = rsvp.serverId == null ? [] : await sql.all('SELECT rsvpId FROM rsvps WHERE serverId = ?;', [rsvp.serverId]);
+        if (!rows[0]) rows = await sql.all('SELECT rsvpId FROM rsvps WHERE eventId = ? AND inviteRecipientId = ?;', [rsvp.eventId, rsvp.inviteRecipientId]);
+        if (!rows[0]) return this.create(rsvp);
+        const { sets, params } = setClause(
+          { status: rsvp.status || undefined, eventId: rsvp.eventId, serverId: rsvp.serverId ?? undefined, version: rsvp.version ?? undefined },
+          ['status', 'eventId', 'serverId', 'version'],
+        );
+        await sql.run(
+          `UPDATE rsvps SET ${[...sets, 'updatedAt = ?', REVIVE_ACKED].join(', ')} WHERE rsvpId = ?;`,
+          [...params, rsvp.updatedAt ?? new Date().toISOString(), rows[0].rsvpId],
+        );
+        return Number(rows[0].rsvpId);
+      },
+    },
+
+    notifications: {
+      async create(note) {
+        const res = await sql.run(
+          'INSERT INTO notifications (userId, notifMsg, notifType, createdAt) VALUES (?, ?, ?, ?);',
+          [note.userId, note.notifMsg, note.notifType ?? null, note.timestamp ?? new Date().toISOString()],
+        );
+        return res.insertId;
+      },
+      async getForUser(userId) {
+        const rows = await sql.all('SELECT * FROM notifications WHERE userId = ? AND deletedAt IS NULL ORDER BY createdAt DESC;', [userId]);
+        return rows.map(normalizeNotification);
+      },
+      async clearForUser(userId) {
+        await sql.run('UPDATE notifications SET deletedAt = ? WHERE userId = ? AND deletedAt IS NULL;', [new Date().toISOString(), userId]);
+      },
+      async upsert(note) {
+        const rows = await sql.all('SELECT notificationId FROM notifications WHERE serverId = ?;', [note.serverId]);
+        if (rows[0]) {
+          await sql.run(
+            `UPDATE notifications SET userId = ?, notifMsg = ?, notifType = ?, createdAt = COALESCE(?, createdAt), ${REVIVE_ACKED} WHERE notificationId = ?;`,
+            [note.userId, note.notifMsg, note.notifType ?? null, note.timestamp ?? null, rows[0].notificationId],
+          );
+          return Number(rows[0].notificationId);
+        }
+        const res = await sql.run(
+          'INSERT INTO notifications (userId, notifMsg, notifType, createdAt, serverId) VALUES (?, ?, ?, ?, ?);',
+          [note.userId, note.notifMsg, note.notifType ?? null, note.timestamp ?? new Date().toISOString(), note.serverId],
+        );
+        return res.insertId;
+      },
+    },
+
+    userPrefs: {
+      async set(userId, prefs, version) {
+        const now = new Date().toISOString();
+        const existing = await sql.all('SELECT preferenceId FROM user_prefs WHERE userId = ?;', [userId]);
+        if (existing.length > 0) {
+          const { sets, params } = setClause({ ...prefs, version: version ?? undefined }, ['theme', 'notificationEnabled', 'colorScheme', 'version']);
+          if (sets.length === 0) return;
+          await sql.run(`UPDATE user_prefs SET ${sets.join(', ')}, updatedAt = ? WHERE userId = ?;`, [...params, now, userId]);
+        } else {
+          await sql.run(
+            'INSERT INTO user_prefs (userId, theme, notificationEnabled, colorScheme, updatedAt, version) VALUES (?, ?, ?, ?, ?, ?);',
+            [userId, prefs.theme ?? 0, prefs.notificationEnabled ?? 1, prefs.colorScheme ?? 0, now, version ?? 0],
+          );
+        }
+      },
+      async getForUser(userId) {
+        const rows = await sql.all('SELECT * FROM user_prefs WHERE userId = ?;', [userId]);
+        return rows[0] ? normalizeUserPrefs(rows[0]) : null;
+      },
+    },
+
+    tombstones: {
+      async list(table) {
+        const rows = await sql.all(`SELECT * FROM ${table} WHERE deletedAt IS NOT NULL ORDER BY deletedAt;`);
+        return rows.map((r) => normalizeTombstone(table, r));
+      },
+      async restore(table, id) {
+        await sql.run(`UPDATE ${table} SET deletedAt = NULL, deleteAckedAt = NULL WHERE ${TOMBSTONE_KEYS[table]} = ?;`, [id]);
+      },
+      async acknowledge(table, ids, at) {
+        const when = at ?? new Date().toISOString();
+        for (const part of chunk(ids)) {
+          await sql.run(
+            `UPDATE ${table} SET deleteAckedAt = ? WHERE deletedAt IS NOT NULL AND ${TOMBSTONE_KEYS[table]} IN (${placeholders(part.length)});`,
+            [when, ...part],
+          );
+        }
+      },
+      async markDeleted(table, localIds) {
+        const now = new Date().toISOString();
+        for (const part of chunk(localIds)) {
+          await sql.run(
+            `UPDATE ${table} SET deletedAt = COALESCE(deletedAt, ?), deleteAckedAt = ? WHERE ${TOMBSTONE_KEYS[table]} IN (${placeholders(part.length)});`,
+            [now, now, ...part],
+          );
+        }
+      },
+      async markDeletedByServerIds(table, serverIds) {
+        const now = new Date().toISOString();
+        for (const part of chunk(serverIds)) {
+          await sql.run(
+            `UPDATE ${table} SET deletedAt = COALESCE(deletedAt, ?), deleteAckedAt = ? WHERE serverId IN (${placeholders(part.length)});`,
+            [now, now, ...part],
+          );
+        }
+      },
+      async purge() {
+        let removed = 0;
+        for (const table of Object.keys(TOMBSTONE_KEYS) as TombstoneTable[]) {
+          const res = await sql.run(`DELETE FROM ${table} WHERE deletedAt IS NOT NULL AND deleteAckedAt IS NOT NULL;`);
+          removed += res.changes;
+        }
+        return removed;
+      },
+    },
+
+    outbox: {
+      async add(entry) {
+        const res = await sql.run(
+          'INSERT INTO outbox (tableName, op, localId, payload, base, createdAt, attempts) VALUES (?, ?, ?, ?, ?, ?, 0);',
+          [entry.table, entry.op, entry.localId, json(entry.payload), json(entry.base), new Date().toISOString()],
+        );
+        return res.insertId;
+      },
+      async list() {
+        const rows = await sql.all('SELECT * FROM outbox ORDER BY outboxId;');
+        return rows.map(normalizeOutboxEntry);
+      },
+      async remove(outboxId) {
+        await sql.run('DELETE FROM outbox WHERE outboxId = ?;', [outboxId]);
+      },
+      async removeFor(table, localIds, op) {
+        const opFilter = op ? ' AND op = ?' : '';
+        for (const part of chunk(localIds)) {
+          await sql.run(`DELETE FROM outbox WHERE tableName = ? AND localId IN (${placeholders(part.length)})${opFilter};`, [table, ...part, ...(op ? [op] : [])]);
+        }
+      },
+      async fail(outboxId, error) {
+        await sql.run('UPDATE outbox SET attempts = attempts + 1, lastError = ? WHERE outboxId = ?;', [error, outboxId]);
+      },
+      async serverIdOf(table, localId) {
+        const rows = await sql.all(`SELECT serverId FROM ${table} WHERE ${TOMBSTONE_KEYS[table]} = ?;`, [localId]);
+        return rows[0]?.serverId == null ? null : Number(rows[0].serverId);
+      },
+      async setServerId(table, localId, serverId) {
+        await sql.run(`UPDATE ${table} SET serverId = ? WHERE ${TOMBSTONE_KEYS[table]} = ?;`, [serverId, localId]);
+      },
+      async localIdOf(table, serverId) {
+        const key = TOMBSTONE_KEYS[table];
+        const rows = await sql.all(`SELECT ${key} FROM ${table} WHERE serverId = ?;`, [serverId]);
+        return rows[0] ? Number(rows[0][key]) : null;
+      },
+    },
+
+    cursors: {
+      async get(key) {
+        const rows = await sql.all('SELECT since FROM sync_cursors WHERE feed = ?;', [key]);
+        return rows[0]?.since ?? null;
+      },
+      async set(key, since) {
+        await sql.run(
+          'INSERT OR REPLACE INTO sync_cursors (feed, since, updatedAt) VALUES (?, ?, ?);',
+          [key, since, new Date().toISOString()],
+        );
+      },
+      async clear() {
+        await sql.run('DELETE FROM sync_cursors;');
+      },
+    },
+
+    conflicts: {
+      async add(conflict) {
+        const now = new Date().toISOString();
+        const res = await sql.run(
+          'INSERT INTO conflicts (tableName, localId, fields, base, local, remote, detectedAt, resolution, resolvedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?);',
+          [conflict.table, conflict.localId, json(conflict.fields), json(conflict.base), json(conflict.local), json(conflict.remote), now, conflict.resolution ?? null, conflict.resolution ? now : null],
+        );
+        return res.insertId;
+      },
+      async list() {
+        const rows = await sql.all('SELECT * FROM conflicts ORDER BY conflictId DESC;');
+        return rows.map(normalizeConflict);
+      },
+      async resolve(conflictId, resolution) {
+        await sql.run('UPDATE conflicts SET resolution = ?, resolvedAt = ? WHERE conflictId = ?;', [resolution, new Date().toISOString(), conflictId]);
+      },
+      async clearResolved() {
+        await sql.run('DELETE FROM conflicts WHERE resolvedAt IS NOT NULL;');
+      },
+    },
+  };
+}
+
+// Every table with data in it, i.e. all but schema_version
+const DATA_TABLES = ['users', 'friends', 'rsvps', 'user_prefs', 'events', 'notifications', 'outbox', 'sync_cursors', 'conflicts'];
+
+export function createNativeBackend(sql: SqlExecutor, adapter: NativeAdapter): DbBackend {
+  return {
+    name: 'native',
+    adapter,
+    repos: createNativeRepositories(sql),
+    init: () => migrateNative(sql),
+    transaction: (fn) => sql.transaction((tx) => fn(createNativeRepositories(tx))),
+    // SQLite writes are already durable
+    flush: async () => {},
+    invalidate: async () => {},
+    reset: () => sql.transaction(async (tx) => {
+      for (const table of DATA_TABLES) await tx.run(`DELETE FROM ${table}`);
+      // start ids from 1 again, like a fresh install
+      await tx.run('DELETE FROM sqlite_sequence');
+    }),
+  };
+}
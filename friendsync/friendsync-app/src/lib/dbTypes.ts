@@ -0,0 +1,536 @@
+/*
+  dbTypes.ts — Typed entities, repository contracts and the backend interface for the local DB
+
+  Every db backend (native expo-sqlite, the JS fallback snapshot, the in-memory test backend)
+  implements DbBackend and the repository interfaces below. Rows come back from them in slightly
+  different shapes (SQLite integers vs. whatever was written into the JSON snapshot), so every read
+  goes through the normalizers in this file before it reaches a screen.
+
+  Deleting an event, rsvp, friendship or notification only sets its `deletedAt`; reads skip those
+  rows. The tombstones stay until the backend has acknowledged the delete and `purge()` runs.
+
+  Local changes to events, rsvps, friendships and preferences are also queued in the outbox until
+  sync has pushed them to the backend.
+
+  Events, rsvps and preferences carry the backend's `version` as of the last sync. An edit made
+  locally while the backend moved on is a conflict; see conflicts.ts.
+*/
+
+export type Row = { [k: string]: any };
+
+// Stored as the number of days between repeats, which is what CreateEventModal has always written.
+// Superseded by Event.rrule (see recurrence.ts) but still written for older clients.
+export enum Recurrence {
+  None = 0,
+  Daily = 1,
+  Weekly = 7,
+  Monthly = 30,
+}
+
+export type FriendStatus = 'pending' | 'accepted' | 'rejected';
+export type RsvpStatus = 'pending' | 'accepted' | 'declined';
+
+// ---------- Entities ----------
+
+export interface User {
+  userId: number;
+  email: string | null;
+  username: string;
+}
+
+export interface Event {
+  eventId: number;
+  // id of the event on the backend; null for events that only exist locally
+  serverId: number | null;
+  userId: number;
+  eventTitle: string | null;
+  description: string | null;
+  startTime: string;
+  endTime: string | null;
+  date: string | null;
+  isEvent: boolean;
+  recurring: Recurrence;
+  // iCalendar RRULE value (recurrence.ts); null = fall back to `recurring`
+  rrule: string | null;
+  // start times (ISO) of occurrences removed from the series
+  exdates: string[];
+  // iCalendar UID of an imported event (ics.ts)
+  uid: string | null;
+  // last change to the row, local or pulled
+  updatedAt: string | null;
+  // the backend's version of the row as of the last sync (0 if never synced)
+  version: number;
+}
+
+// Free time is stored in the events table with isEvent = 0
+export interface FreeTimeSlot extends Event {
+  isEvent: false;
+}
+
+export interface Friendship {
+  friendRowId: number;
+  serverId: number | null;
+  userId: number;
+  friendId: number;
+  status: FriendStatus;
+}
+
+export interface Rsvp {
+  rsvpId: number;
+  serverId: number | null;
+  createdAt: string;
+  eventId: number;
+  eventOwnerId: number;
+  inviteRecipientId: number;
+  status: RsvpStatus;
+  updatedAt: string;
+  version: number;
+}
+
+export interface Notification {
+  notificationId: number;
+  serverId: number | null;
+  userId: number;
+  notifMsg: string;
+  notifType: string | null;
+  createdAt: string;
+}
+
+// Tables whose deletes are kept as tombstones (deletedAt set) until the backend has seen them
+export type TombstoneTable = 'events' | 'rsvps' | 'friends' | 'notifications';
+
+export const TOMBSTONE_KEYS: { [T in TombstoneTable]: string } = {
+  events: 'eventId',
+  rsvps: 'rsvpId',
+  friends: 'friendRowId',
+  notifications: 'notificationId',
+};
+
+export interface Tombstone {
+  table: TombstoneTable;
+  id: number;
+  serverId: number | null;
+  deletedAt: string;
+  // set once the backend has confirmed the delete; such rows are removed by purge()
+  acknowledgedAt: string | null;
+}
+
+// Tables whose local changes are pushed to the backend
+export type OutboxTable = 'events' | 'rsvps' | 'friends' | 'user_prefs';
+// Outbox tables whose rows carry their own serverId; preferences are addressed by userId instead
+export type ServerIdTable = Exclude<OutboxTable, 'user_prefs'>;
+export type OutboxOp = 'create' | 'update' | 'delete';
+
+export interface OutboxEntry {
+  outboxId: number;
+  table: OutboxTable;
+  op: OutboxOp;
+  // primary key of the changed row in the local table
+  localId: number;
+  // what was written locally (the new row for create, the changed fields for update)
+  payload: Row | null;
+  // for updates: the row's `version` and the values the change replaced
+  base: Row | null;
+  createdAt: string;
+  attempts: number;
+  lastError: string | null;
+}
+
+export interface UserPrefs {
+  preferenceId: number;
+  userId: number;
+  colorScheme: number;
+  notificationEnabled: number;
+  theme: number;
+  updatedAt: string;
+  version: number;
+}
+
+// Tables whose concurrent edits are detected (see conflicts.ts)
+export type ConflictTable = 'events' | 'rsvps' | 'user_prefs';
+// Which side's values the row ended up with; 'merge' combined both
+export type ConflictResolution = 'server' | 'client' | 'merge';
+
+export interface Conflict {
+  conflictId: number;
+  table: ConflictTable;
+  // eventId, rsvpId or, for preferences, userId
+  localId: number;
+  // fields the two sides disagree on
+  fields: string[];
+  // the values the local edit replaced, the local edit itself and what the backend had
+  base: Row | null;
+  local: Row;
+  remote: Row;
+  detectedAt: string;
+  // null while the conflict waits for the user
+  resolution: ConflictResolution | null;
+  resolvedAt: string | null;
+}
+
+// ---------- Inputs ----------
+
+export type NewUser = { username: string; email: string; password?: string; phone_number?: string | null };
+export type UserUpdate = { username?: string; email?: string; password?: string; phone_number?: string | null };
+
+export type NewEvent = {
+  userId: number;
+  title?: string;
+  eventTitle?: string;
+  description?: string;
+  startTime: string;
+  endTime?: string;
+  date?: string;
+  isEvent?: boolean | number;
+  recurring?: Recurrence | number;
+  rrule?: string | null;
+  exdates?: string[] | null;
+  uid?: string | null;
+  serverId?: number | null;
+  version?: number | null;
+  updatedAt?: string | null;
+};
+// Events are matched to an existing row by their backend id
+export type EventUpsert = NewEvent & { serverId: number };
+export type EventUpdate = {
+  eventTitle?: string | null;
+  description?: string | null;
+  startTime?: string;
+  endTime?: string | null;
+  date?: string | null;
+  recurring?: Recurrence | number | null;
+  rrule?: string | null;
+  exdates?: string[] | null;
+  isEvent?: boolean | number | null;
+};
+export type NewFreeTime = { userId: number; startTime: string; endTime?: string; rrule?: string | null; recurring?: Recurrence | number };
+// isEvent: true = only real events, false = only free time, omitted = both
+export type EventFilter = { isEvent?: boolean };
+
+export type NewRsvp = {
+  eventId: number;
+  eventOwnerId: number;
+  inviteRecipientId: number;
+  status?: RsvpStatus | string;
+  createdAt?: string;
+  updatedAt?: string;
+  serverId?: number | null;
+  version?: number | null;
+};
+export type RsvpUpdate = { status?: RsvpStatus | string; updatedAt?: string };
+
+export type NewNotification = { userId: number; notifMsg: string; notifType?: string; timestamp?: string };
+export type NotificationUpsert = NewNotification & { serverId: number };
+
+export type UserPrefsUpdate = { theme?: number; notificationEnabled?: number; colorScheme?: number };
+
+export type NewOutboxEntry = { table: OutboxTable; op: OutboxOp; localId: number; payload?: Row | null; base?: Row | null };
+
+export type NewConflict = {
+  table: ConflictTable;
+  localId: number;
+  fields: string[];
+  base?: Row | null;
+  local: Row;
+  remote: Row;
+  resolution?: ConflictResolution | null;
+};
+
+// ---------- Repositories ----------
+
+export interface UserRepository {
+  create(user: NewUser): Promise<number>;
+  getById(id: number): Promise<User | null>;
+  getByUsername(username: string): Promise<User | null>;
+  // Insert or update the user under its backend id, which is also its local id
+  upsert(user: User): Promise<number>;
+  update(id: number, fields: UserUpdate): Promise<void>;
+  // Also removes everything owned by or addressed to the user
+  delete(id: number): Promise<void>;
+}
+
+export interface FriendshipRepository {
+  // Reuses a deleted row for the same pair instead of failing the unique check
+  create(senderId: number, receiverId: number): Promise<number>;
+  setStatus(friendRowId: number, status: FriendStatus): Promise<void>;
+  getPendingFor(userId: number): Promise<Friendship[]>;
+  getAcceptedFor(userId: number): Promise<Friendship[]>;
+  // Leaves a tombstone (see TombstoneRepository)
+  removeAccepted(userA: number, userB: number): Promise<void>;
+  // A pair has at most one row, whichever direction it was created in. Matched by serverId when
+  // given, else by the pair. Resolves to its friendRowId.
+  // An unacknowledged tombstone stays deleted; an acknowledged one is revived.
+  upsert(userA: number, userB: number, status?: FriendStatus, serverId?: number | null): Promise<number>;
+}
+
+export interface EventRepository {
+  create(event: NewEvent): Promise<number>;
+  getForUser(userId: number): Promise<Event[]>;
+  getFreeTimeForUser(userId: number): Promise<FreeTimeSlot[]>;
+  // Other users' events synced for `userId`: friends' shared free time and invitations
+  getSharedWith(userId: number): Promise<Event[]>;
+  // Events of any of `userIds` starting in [from, to), plus repeating ones that started before `to`
+  // (expand them with recurrence.ts), ordered by startTime
+  getInRange(userIds: number[], from: string, to: string, filter?: EventFilter): Promise<Event[]>;
+  getByIds(eventIds: number[]): Promise<Event[]>;
+  // The user's event imported with iCalendar `uid`, if any
+  getByUid(userId: number, uid: string): Promise<Event | null>;
+  update(eventId: number, fields: EventUpdate): Promise<void>;
+  // Leaves a tombstone (see TombstoneRepository)
+  delete(eventId: number): Promise<void>;
+  // Insert or update by serverId (unique). Resolves to the local eventId.
+  upsert(event: EventUpsert): Promise<number>;
+}
+
+export interface RsvpRepository {
+  create(rsvp: NewRsvp): Promise<number>;
+  getById(rsvpId: number): Promise<Rsvp | null>;
+  getForEvent(eventId: number): Promise<Rsvp[]>;
+  getForRecipient(userId: number): Promise<Rsvp[]>;
+  update(rsvpId: number, fields: RsvpUpdate): Promise<void>;
+  // Leaves a tombstone (see TombstoneRepository)
+  delete(rsvpId: number): Promise<void>;
+  // Insert or update by serverId when given, else by (eventId, inviteRecipientId), which is unique.
+  // Resolves to the rsvpId.
+  upsert(rsvp: NewRsvp): Promise<number>;
+}
+
+export interface NotificationRepository {
+  create(note: NewNotification): Promise<number>;
+  getForUser(userId: number): Promise<Notification[]>;
+  // Leaves tombstones (see TombstoneRepository)
+  clearForUser(userId: number): Promise<void>;
+  // Insert or update by serverId. Resolves to the notificationId.
+  upsert(note: NotificationUpsert): Promise<number>;
+}
+
+export interface TombstoneRepository {
+  list(table: TombstoneTable): Promise<Tombstone[]>;
+  // Undo a delete that has not been purged yet
+  restore(table: TombstoneTable, id: number): Promise<void>;
+  acknowledge(table: TombstoneTable, ids: number[], at?: string): Promise<void>;
+  // Delete rows because the backend says they are gone; the tombstones are acknowledged already
+  markDeleted(table: TombstoneTable, localIds: number[]): Promise<void>;
+  markDeletedByServerIds(table: TombstoneTable, serverIds: number[]): Promise<void>;
+  // Permanently remove acknowledged tombstones from every table; resolves to the number removed
+  purge(): Promise<number>;
+}
+
+export interface OutboxRepository {
+  add(entry: NewOutboxEntry): Promise<number>;
+  // Oldest first, the order they have to be replayed in
+  list(): Promise<OutboxEntry[]>;
+  remove(outboxId: number): Promise<void>;
+  // Every pending change of these rows, or only those of one kind when `op` is given
+  removeFor(table: OutboxTable, localIds: number[], op?: OutboxOp): Promise<void>;
+  // Record a failed push attempt
+  fail(outboxId: number, error: string): Promise<void>;
+  // Server id of a local row, including deleted ones; null until it has been pushed
+  serverIdOf(table: ServerIdTable, localId: number): Promise<number | null>;
+  setServerId(table: ServerIdTable, localId: number, serverId: number): Promise<void>;
+  // Local id of the row with this server id, null if it has not been pulled
+  localIdOf(table: ServerIdTable, serverId: number): Promise<number | null>;
+}
+
+export interface ConflictRepository {
+  add(conflict: NewConflict): Promise<number>;
+  // Newest first
+  list(): Promise<Conflict[]>;
+  resolve(conflictId: number, resolution: ConflictResolution): Promise<void>;
+  // Forget every conflict that has been resolved
+  clearResolved(): Promise<void>;
+}
+
+// Where incremental sync left off for each feed (e.g. 'events:user:1')
+export interface SyncCursorRepository {
+  get(key: string): Promise<string | null>;
+  set(key: string, since: string): Promise<void>;
+  // Forget every cursor so the next sync downloads everything again
+  clear(): Promise<void>;
+}
+
+export interface UserPrefsRepository {
+  // `version` is only passed by sync, with the backend's version of the row
+  set(userId: number, prefs: UserPrefsUpdate, version?: number | null): Promise<void>;
+  getForUser(userId: number): Promise<UserPrefs | null>;
+}
+
+export interface Repositories {
+  users: UserRepository;
+  friends: FriendshipRepository;
+  events: EventRepository;
+  rsvps: RsvpRepository;
+  notifications: NotificationRepository;
+  userPrefs: UserPrefsRepository;
+  tombstones: TombstoneRepository;
+  outbox: OutboxRepository;
+  cursors: SyncCursorRepository;
+  conflicts: ConflictRepository;
+}
+
+// ---------- Backends ----------
+
+export interface DbBackend {
+  readonly name: 'native' | 'fallback' | 'memory';
+  // Which expo-sqlite API the native backend is using; null for the others
+  readonly adapter: string | null;
+  repos: Repositories;
+  // Prepare storage and apply migrations; resolves to the resulting schema version
+  init(): Promise<number>;
+  // Run `fn` atomically against transaction-scoped repositories (see db.transaction)
+  transaction<T>(fn: (tx: Repositories) => Promise<T>): Promise<T>;
+  // Persist anything still buffered in memory
+  flush(): Promise<void>;
+  // Drop cached state so the next read goes back to storage
+  invalidate(): Promise<void>;
+  // Delete every row of every table, outbox and sync cursors included; the schema stays as it is
+  reset(): Promise<void>;
+}
+
+// ---------- Change events ----------
+
+export type DbTable = 'users' | 'friends' | 'events' | 'rsvps' | 'notifications' | 'user_prefs' | 'outbox' | 'conflicts';
+export type DbChangeOp = 'insert' | 'update' | 'delete';
+export type DbChange = { table: DbTable; op: DbChangeOp };
+
+// ---------- Normalization ----------
+
+export function toFlag(v: unknown): boolean {
+  return v === true || v === 1 || v === '1' || v === 'true';
+}
+
+export function toRecurrence(v: unknown): Recurrence {
+  const n = Number(v);
+  if (n === Recurrence.Daily || n === Recurrence.Weekly || n === Recurrence.Monthly) return n;
+  return Recurrence.None;
+}
+
+// Values as they are written to storage (SQLite has no boolean type)
+export function flagToInt(v: boolean | number | null | undefined, fallback: number): number {
+  if (v == null) return fallback;
+  return toFlag(v) ? 1 : 0;
+}
+
+const str = (v: unknown): string | null => (v == null ? null : String(v));
+const toStringList = (v: unknown): string[] => (Array.isArray(v) ? v.map(String) : []);
+
+// JSON columns come back as text from SQLite and as objects from the snapshot
+function parseJson(v: unknown): any {
+  if (typeof v !== 'string') return v ?? null;
+  try { return JSON.parse(v); } catch { return null; }
+}
+
+export function normalizeUser(row: Row): User {
+  return { userId: Number(row.userId), email: str(row.email), username: String(row.username ?? '') };
+}
+
+export function normalizeEvent(row: Row): Event {
+  return {
+    eventId: Number(row.eventId),
+    serverId: row.serverId == null ? null : Number(row.serverId),
+    userId: Number(row.userId),
+    eventTitle: str(row.eventTitle ?? row.title),
+    description: str(row.description),
+    startTime: String(row.startTime ?? ''),
+    endTime: str(row.endTime),
+    date: str(row.date),
+    // rows written before isEvent existed were always events
+    isEvent: row.isEvent == null ? true : toFlag(row.isEvent),
+    recurring: toRecurrence(row.recurring),
+    rrule: str(row.rrule),
+    exdates: toStringList(parseJson(row.exdates)),
+    uid: str(row.uid),
+    updatedAt: str(row.updatedAt),
+    version: Number(row.version ?? 0),
+  };
+}
+
+export function normalizeFreeTime(row: Row): FreeTimeSlot {
+  return { ...normalizeEvent(row), isEvent: false };
+}
+
+export function normalizeFriendship(row: Row): Friendship {
+  return {
+    friendRowId: Number(row.friendRowId),
+    serverId: row.serverId == null ? null : Number(row.serverId),
+    userId: Number(row.userId),
+    friendId: Number(row.friendId),
+    status: (row.status ?? 'pending') as FriendStatus,
+  };
+}
+
+export function normalizeRsvp(row: Row): Rsvp {
+  return {
+    rsvpId: Number(row.rsvpId),
+    serverId: row.serverId == null ? null : Number(row.serverId),
+    createdAt: String(row.createdAt ?? ''),
+    eventId: Number(row.eventId),
+    eventOwnerId: Number(row.eventOwnerId),
+    inviteRecipientId: Number(row.inviteRecipientId),
+    status: (row.status ?? 'pending') as RsvpStatus,
+    updatedAt: String(row.updatedAt ?? ''),
+    version: Number(row.version ?? 0),
+  };
+}
+
+export function normalizeNotification(row: Row): Notification {
+  return {
+    notificationId: Number(row.notificationId),
+    serverId: row.serverId == null ? null : Number(row.serverId),
+    userId: Number(row.userId),
+    notifMsg: String(row.notifMsg ?? ''),
+    notifType: str(row.notifType),
+    createdAt: String(row.createdAt ?? ''),
+  };
+}
+
+export function normalizeTombstone(table: TombstoneTable, row: Row): Tombstone {
+  return {
+    table,
+    id: Number(row[TOMBSTONE_KEYS[table]]),
+    serverId: row.serverId == null ? null : Number(row.serverId),
+    deletedAt: String(row.deletedAt),
+    acknowledgedAt: str(row.deleteAckedAt),
+  };
+}
+
+export function normalizeOutboxEntry(row: Row): OutboxEntry {
+  return {
+    outboxId: Number(row.outboxId),
+    table: (row.tableName ?? row.table) as OutboxTable,
+    op: row.op as OutboxOp,
+    localId: Number(row.localId),
+    payload: parseJson(row.payload),
+    base: parseJson(row.base),
+    createdAt: String(row.createdAt ?? ''),
+    attempts: Number(row.attempts ?? 0),
+    lastError: str(row.lastError),
+  };
+}
+
+export function normalizeUserPrefs(row: Row): UserPrefs {
+  return {
+    preferenceId: Number(row.preferenceId),
+    userId: Number(row.userId),
+    colorScheme: Number(row.colorScheme ?? 0),
+    notificationEnabled: Number(row.notificationEnabled ?? 1),
+    theme: Number(row.theme ?? 0),
+    updatedAt: String(row.updatedAt ?? ''),
+    version: Number(row.version ?? 0),
+  };
+}
+
+export function normalizeConflict(row: Row): Conflict {
+  return {
+    conflictId: Number(row.conflictId),
+    table: (row.tableName ?? row.table) as ConflictTable,
+    localId: Number(row.localId),
+    fields: parseJson(row.fields) ?? [],
+    base: parseJson(row.base),
+    local: parseJson(row.local) ?? {},
+    remote: parseJson(row.remote) ?? {},
+    detectedAt: String(row.detectedAt ?? ''),
+    resolution: (row.resolution ?? null) as ConflictResolution | null,
+    resolvedAt: str(row.resolvedAt),
+  };
+}
@@ -0,0 +1,454 @@
+/*
+  ics.ts — iCalendar (.ics) import and export
+
+  Moves events and free time between FriendSync and other calendar apps as RFC 5545 files:
+
+  - exportCalendar(userId) / exportEvent(eventId) write a VCALENDAR with one VEVENT per row.
+    Repeating rows keep their RRULE and EXDATEs. Times are written as wall time in the device's time
+    zone (TZID=<IANA name>) so repeats stay at the same hour across daylight saving; the file carries
+    a VTIMEZONE for that zone, built from its offsets this year. Without a known zone times are
+    written in UTC. Free time is marked X-FRIENDSYNC-FREE-TIME and TRANSPARENT.
+  - importCalendar(userId, text) stores every VEVENT as the user's event, all in one transaction and
+    queued in the outbox, so it is synced like any other edit. Times in other zones are converted to local time, all-day events
+    span their days, and a modified occurrence (RECURRENCE-ID) becomes an exception date of its
+    series plus an event of its own. Re-importing a file updates the events it created before,
+    matched by UID, instead of adding them twice; a VEVENT that is now CANCELLED deletes its copy.
+
+  Unsupported parts (VTODO, VALARM, VTIMEZONE definitions, attendees) are ignored; a TZID that is
+  not an IANA name is read as local time.
+*/
+
+import { Platform, Share } from 'react-native';
+import db, { Event, EventUpdate, NewEvent, Repositories, createEventIn, deleteEventIn, updateEventIn } from './db';
+import {
+  WEEKDAYS, formatIcsDate, formatLocalTime, formatRule, localDay, parseIcsDate, parseRule, recurrenceOf, ruleFromRecurrence, zoneOffset,
+} from './recurrence';
+
+// A VEVENT as read from a file
+export type IcsEvent = {
+  uid: string | null;
+  summary: string | null;
+  description: string | null;
+  start: Date;
+  end: Date | null;
+  allDay: boolean;
+  rrule: string | null;
+  exdates: Date[];
+  // set on a modified occurrence of a repeating event: the start it replaces
+  recurrenceId: Date | null;
+  freeTime: boolean;
+  cancelled: boolean;
+};
+
+export type ImportResult = { created: number; updated: number; unchanged: number; deleted: number; skipped: number };
+
+type Property = { name: string; params: { [name: string]: string }; value: string };
+
+const PRODID = '-//FriendSync//FriendSync Calendar//EN';
+const FREE_TIME = 'X-FRIENDSYNC-FREE-TIME';
+// SUMMARY of untitled free time, which other apps need to show something
+const FREE_TITLE = 'Free';
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MINUTE_MS = 60 * 1000;
+
+// ---------- Reading ----------
+
+const unescapeText = (v: string) => v.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+// NAME;PARAM=a;PARAM="b:c":value — colons and semicolons inside quotes belong to the parameter
+function parseLine(line: string): Property | null {
+  let i = 0;
+  let quoted = false;
+  for (; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) break;
+  }
+  if (i >= line.length) return null;
+
+  const [name, ...rawParams] = line.slice(0, i).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  if (!name) return null;
+  const params: { [name: string]: string } = {};
+  rawParams.forEach((p) => {
+    const eq = p.indexOf('=');
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(i + 1) };
+}
+
+// A DATE/DATE-TIME property; TZID names the zone of a wall time
+const dateOf = (p: Property) => parseIcsDate(p.value, p.params.TZID);
+
+// e.g. PT1H30M, P1D, -PT15M
+function parseDuration(text: string): number | null {
+  const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(text.trim());
+  if (!m) return null;
+  const [, sign, w = '0', d = '0', h = '0', mi = '0', s = '0'] = m;
+  const ms = (((Number(w) * 7 + Number(d)) * 24 + Number(h)) * 60 + Number(mi)) * 60000 + Number(s) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function toEvent(props: Property[]): IcsEvent | null {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const startProp = get('DTSTART');
+  const start = startProp ? dateOf(startProp) : null;
+  if (!startProp || !start) return null;
+  const allDay = startProp.params.VALUE === 'DATE' || /^\d{8}$/.test(startProp.value.trim());
+
+  const endProp = get('DTEND');
+  const duration = get('DURATION');
+  let end = endProp ? dateOf(endProp) : null;
+  if (!end && duration) {
+    const ms = parseDuration(duration.value);
+    if (ms != null) end = new Date(start.getTime() + ms);
+  }
+  // an all-day event without an end lasts that one day
+  if (!end && allDay) end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+
+  const rrule = get('RRULE')?.value.trim() || null;
+  const recurrenceId = get('RECURRENCE-ID');
+  return {
+    uid: get('UID')?.value.trim() || null,
+    summary: get('SUMMARY') ? unescapeText(get('SUMMARY')!.value) : null,
+    description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value) : null,
+    start,
+    end,
+    allDay,
+    // a rule this app cannot expand would only show the first occurrence
+    rrule: rrule && parseRule(rrule) ? rrule : null,
+    exdates: props
+      .filter((p) => p.name === 'EXDATE')
+      .flatMap((p) => p.value.split(',').map((v) => parseIcsDate(v, p.params.TZID)))
+      .filter((d): d is Date => d != null),
+    recurrenceId: recurrenceId ? dateOf(recurrenceId) : null,
+    freeTime: get(FREE_TIME)?.value.trim().toUpperCase() === 'TRUE',
+    cancelled: get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+  };
+}
+
+/**
+ * The VEVENTs of an .ics file, in file order. Events without a usable DTSTART are left out.
+ */
+export function parseCalendar(text: string): IcsEvent[] {
+  // long lines are folded onto continuation lines starting with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  // components nest (VALARM inside VEVENT); only the VEVENT's own properties count
+  const stack: string[] = [];
+  let props: Property[] = [];
+  for (const line of lines) {
+    const prop = parseLine(line);
+    if (!prop) continue;
+    if (prop.name === 'BEGIN') {
+      stack.push(prop.value.trim().toUpperCase());
+      if (stack[stack.length - 1] === 'VEVENT') props = [];
+    } else if (prop.name === 'END') {
+      if (stack.pop() === 'VEVENT') {
+        const event = toEvent(props);
+        if (event) events.push(event);
+      }
+    } else if (stack[stack.length - 1] === 'VEVENT') {
+      props.push(prop);
+    }
+  }
+  return events;
+}
+
+// ---------- Writing ----------
+
+const escapeText = (v: string) => v.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded; never split inside a UTF-8 sequence
+function fold(line: string): string {
+  const out: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const code = ch.codePointAt(0)!;
+    const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    if (octets + size > 75) {
+      out.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += ch;
+    octets += size;
+  }
+  out.push(current);
+  return out.join('\r\n');
+}
+
+function deviceTimeZone(): string | null {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// e.g. +0100, -0430
+function formatOffset(ms: number): string {
+  const minutes = Math.round(Math.abs(ms) / MINUTE_MS);
+  return `${ms < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+// Day of the month of the nth `weekday` (0 = Sunday) in a month; a negative nth counts from the end
+function nthWeekday(year: number, month: number, weekday: number, nth: number): number {
+  if (nth > 0) return 1 + ((weekday - new Date(Date.UTC(year, month, 1)).getUTCDay() + 7) % 7) + (nth - 1) * 7;
+  const last = new Date(Date.UTC(year, month + 1, 0));
+  return last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7);
+}
+
+/**
+ * The VTIMEZONE that TZID=`timeZone` refers to. Daylight saving is described by the two shifts the
+ * zone makes in `year`, repeating yearly (as "last Sunday of March" and the like); a zone without
+ * them gets one fixed offset. Past changes to a zone's rules are not recorded.
+ */
+function formatTimeZone(timeZone: string, year = new Date().getFullYear()): string[] {
+  const offsetAt = (time: number) => zoneOffset(time, timeZone);
+  const shifts: number[] = [];
+  for (let day = Date.UTC(year, 0, 1); day < Date.UTC(year + 1, 0, 1); day += DAY_MS) {
+    if (offsetAt(day) === offsetAt(day + DAY_MS)) continue;
+    // narrow it down to the first minute on the new offset
+    let before = day;
+    let after = day + DAY_MS;
+    while (after - before > MINUTE_MS) {
+      const mid = before + Math.floor((after - before) / (2 * MINUTE_MS)) * MINUTE_MS;
+      if (offsetAt(mid) === offsetAt(before)) before = mid;
+      else after = mid;
+    }
+    shifts.push(after);
+  }
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  if (shifts.length !== 2) {
+    const offset = formatOffset(offsetAt(Date.UTC(year, 0, 1)));
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  } else {
+    shifts.forEach((at) => {
+      const from = offsetAt(at - MINUTE_MS);
+      const to = offsetAt(at);
+      // onsets are given in the wall time that was in force before them
+      const wall = new Date(at + from);
+      const month = wall.getUTCMonth();
+      const weekday = wall.getUTCDay();
+      const nth = wall.getUTCDate() + 7 > new Date(Date.UTC(year, month + 1, 0)).getUTCDate() ? -1 : Math.ceil(wall.getUTCDate() / 7);
+      const kind = to > from ? 'DAYLIGHT' : 'STANDARD';
+      lines.push(
+        `BEGIN:${kind}`,
+        `DTSTART:1970${pad(month + 1)}${pad(nthWeekday(1970, month, weekday, nth))}T${pad(wall.getUTCHours())}${pad(wall.getUTCMinutes())}00`,
+        `TZOFFSETFROM:${formatOffset(from)}`,
+        `TZOFFSETTO:${formatOffset(to)}`,
+        `RRULE:FREQ=YEARLY;BYMONTH=${month + 1};BYDAY=${nth}${WEEKDAYS[weekday]}`,
+        `END:${kind}`,
+      );
+    });
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+// The UID an event is exported with; rows that were not imported get one derived from their ids
+export function uidOf(event: Event): string {
+  if (event.uid) return event.uid;
+  return event.serverId != null ? `event-${event.serverId}@friendsync` : `local-event-${event.eventId}@friendsync`;
+}
+
+function formatEvent(event: Event, timeZone: string | null, stamp: string): string[] {
+  const start = new Date(event.startTime);
+  if (Number.isNaN(start.getTime())) return [];
+  const end = event.endTime ? new Date(event.endTime) : null;
+  const when = (name: string, date: Date) => (timeZone ? `${name};TZID=${timeZone}:${formatIcsDate(date, timeZone)}` : `${name}:${formatIcsDate(date)}`);
+
+  const lines = ['BEGIN:VEVENT', `UID:${uidOf(event)}`, `DTSTAMP:${stamp}`, when('DTSTART', start)];
+  if (end && !Number.isNaN(end.getTime())) lines.push(when('DTEND', end));
+  lines.push(`SUMMARY:${escapeText(event.eventTitle ?? (event.isEvent ? 'Event' : FREE_TITLE))}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  const legacy = event.rrule ? null : ruleFromRecurrence(event.recurring);
+  const rrule = event.rrule ?? (legacy ? formatRule(legacy) : null);
+  if (rrule) lines.push(`RRULE:${rrule.replace(/^RRULE:/i, '')}`);
+  event.exdates.forEach((x) => lines.push(when('EXDATE', new Date(x))));
+  if (!event.isEvent) lines.push('TRANSP:TRANSPARENT', `${FREE_TIME}:TRUE`);
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatIcsDate(new Date(event.updatedAt))}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * `events` as the text of an .ics file
+ */
+export function formatCalendar(events: Event[], name?: string): string {
+  const timeZone = deviceTimeZone();
+  const stamp = formatIcsDate(new Date());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+  if (name) lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+  if (timeZone) lines.push(`X-WR-TIMEZONE:${timeZone}`, ...formatTimeZone(timeZone));
+  events.forEach((e) => lines.push(...formatEvent(e, timeZone, stamp)));
+  lines.push('END:VCALENDAR');
+  return `${lines.map(fold).join('\r\n')}\r\n`;
+}
+
+/** All of a user's events and free time as an .ics file */
+export async function exportCalendar(userId: number): Promise<string> {
+  return formatCalendar(await db.getEventsForUser(userId), 'FriendSync');
+}
+
+/** A single event (the whole series if it repeats) as an .ics file */
+export async function exportEvent(eventId: number): Promise<string> {
+  const [event] = await db.getEventsByIds([eventId]);
+  if (!event) throw new Error(`ics: event ${eventId} not found`);
+  return formatCalendar([event]);
+}
+
+/**
+ * Hand an .ics file to the user: a download on the web, the share sheet elsewhere.
+ */
+export async function shareCalendar(text: string, filename = 'friendsync.ics') {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/calendar' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+  await Share.share({ title: filename, message: text });
+}
+
+/**
+ * Let the user choose an .ics file and resolve to its text; null if nothing was chosen. Only
+ * possible on the web, elsewhere resolves to null (paste the file's contents instead).
+ */
+export function pickCalendarFile(): Promise<string | null> {
+  if (Platform.OS !== 'web') return Promise.resolve(null);
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.ics,text/calendar';
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) resolve(null);
+      else file.text().then(resolve, () => resolve(null));
+    };
+    input.click();
+  });
+}
+
+// ---------- Importing ----------
+
+// The row an imported VEVENT becomes
+function toRow(userId: number, e: IcsEvent, uid: string): NewEvent {
+  const end = e.end && e.end > e.start ? e.end : new Date(e.start.getTime() + HOUR_MS);
+  const rule = parseRule(e.rrule);
+  return {
+    userId,
+    uid,
+    eventTitle: e.freeTime ? (e.summary === FREE_TITLE ? undefined : e.summary ?? undefined) : e.summary ?? 'Event',
+    description: e.description ?? undefined,
+    startTime: formatLocalTime(e.start),
+    endTime: formatLocalTime(end),
+    date: localDay(e.start),
+    isEvent: !e.freeTime,
+    rrule: e.rrule,
+    recurring: recurrenceOf(rule),
+    exdates: e.exdates.length ? e.exdates.map((d) => d.toISOString()) : null,
+  };
+}
+
+// The fields of `row` that differ from what `existing` holds
+function changesOf(existing: Event, row: NewEvent): EventUpdate {
+  const next: EventUpdate = {
+    eventTitle: row.eventTitle ?? null,
+    description: row.description ?? null,
+    startTime: row.startTime,
+    endTime: row.endTime ?? null,
+    date: row.date ?? null,
+    isEvent: row.isEvent,
+    rrule: row.rrule ?? null,
+    recurring: row.recurring,
+    exdates: row.exdates ?? [],
+  };
+  // rows without a date fall back to their start time, so filling it in changes nothing
+  if (existing.date == null) delete next.date;
+  const changed: { [k: string]: unknown } = {};
+  (Object.keys(next) as (keyof EventUpdate)[]).forEach((k) => {
+    if (JSON.stringify(next[k] ?? null) !== JSON.stringify(existing[k] ?? null)) changed[k] = next[k];
+  });
+  return changed as EventUpdate;
+}
+
+// The local event a UID refers to: one imported with it, or one of ours exported earlier (uidOf)
+async function findByUid(tx: Repositories, userId: number, uid: string): Promise<Event | null> {
+  const imported = await tx.events.getByUid(userId, uid);
+  if (imported) return imported;
+  const ours = /^(local-)?event-(\d+)@friendsync$/.exec(uid);
+  if (!ours) return null;
+  const eventId = ours[1] ? Number(ours[2]) : await tx.outbox.localIdOf('events', Number(ours[2]));
+  const [event] = eventId == null ? [] : await tx.events.getByIds([eventId]);
+  return event && event.userId === userId ? event : null;
+}
+
+/**
+ * Store the events of an .ics file as `userId`'s. Events already imported (same UID) are updated
+ * in place, or deleted if the file cancels them. Other cancelled events and ones without a start
+ * are skipped.
+ */
+export async function importCalendar(userId: number, text: string): Promise<ImportResult> {
+  const result: ImportResult = { created: 0, updated: 0, unchanged: 0, deleted: 0, skipped: 0 };
+  const events = parseCalendar(text);
+  if (events.length === 0 && !/BEGIN:VCALENDAR/i.test(text)) throw new Error('ics: not an iCalendar file');
+
+  // a modified occurrence replaces one start of its series, which must then skip that start
+  const series = new Map(events.filter((e) => e.uid && !e.recurrenceId).map((e) => [e.uid!, e] as const));
+  events.forEach((e) => {
+    const parent = e.recurrenceId && e.uid ? series.get(e.uid) : undefined;
+    if (parent) parent.exdates.push(e.recurrenceId!);
+  });
+
+  // all or nothing: a file that fails halfway leaves no partial import behind
+  await db.transaction(async (tx) => {
+    for (const e of events) {
+      // files without UIDs cannot be matched later; their start and title stand in for one
+      const base = e.uid ?? `${formatIcsDate(e.start)}-${e.summary ?? ''}@import`;
+      const uid = e.recurrenceId ? `${base}#${formatIcsDate(e.recurrenceId)}` : base;
+      const existing = await findByUid(tx, userId, uid);
+      if (e.cancelled) {
+        if (existing) {
+          await deleteEventIn(tx, existing.eventId);
+          result.deleted += 1;
+        } else {
+          result.skipped += 1;
+        }
+        continue;
+      }
+
+      const row = toRow(userId, { ...e, rrule: e.recurrenceId ? null : e.rrule }, uid);
+      if (!existing) {
+        await createEventIn(tx, row);
+        result.created += 1;
+        continue;
+      }
+      const changes = changesOf(existing, row);
+      if (Object.keys(changes).length === 0) {
+        result.unchanged += 1;
+      } else {
+        await updateEventIn(tx, existing.eventId, changes);
+        result.updated += 1;
+      }
+    }
+  });
+  return result;
+}
+
+export default {
+  parseCalendar,
+  formatCalendar,
+  exportCalendar,
+  exportEvent,
+  importCalendar,
+  shareCalendar,
+  pickCalendarFile,
+};
@@ -0,0 +1,82 @@
+/*
+  identity.ts — Which backend user a Firebase account is
+
+  Firebase knows an account by its uid; the backend, db.ts and every REST endpoint by a numeric
+  userId. `resolveUserId()` looks the account up on the backend and registers it on first sign-in:
+
+  - api.users.getByFirebaseUid(uid) -> the user, or 404 if the account is new
+  - api.users.create({ username, email, firebaseUid }) -> the created user
+
+  The user is stored in the local db under the backend's id, and the uid -> userId pair is kept in
+  storage so later launches (offline ones too) need no request.
+
+  Screens get the id through `useCurrentUserId()` from features/auth/AuthProvider.
+*/
+
+import * as db from './db';
+import storage from './storage';
+import api, { ApiError, ApiUser } from './api';
+import { toUser } from './sync';
+
+// The parts of a Firebase User this module needs
+export type FirebaseAccount = { uid: string; email: string | null; displayName: string | null };
+
+type IdentityMap = { [uid: string]: number };
+
+const MAP_KEY = 'identity_map';
+
+// Lookups in flight, so sign-in and the auth listener resolving the same account share a request
+const pending = new Map<string, Promise<number>>();
+
+export async function getMappedUserId(uid: string): Promise<number | null> {
+  const map = await storage.getItem<IdentityMap>(MAP_KEY).catch(() => null);
+  return map?.[uid] ?? null;
+}
+
+async function remember(uid: string, userId: number) {
+  const map = (await storage.getItem<IdentityMap>(MAP_KEY).catch(() => null)) ?? {};
+  await storage.setItem(MAP_KEY, { ...map, [uid]: userId });
+}
+
+async function lookUp(account: FirebaseAccount): Promise<ApiUser> {
+  try {
+    return await api.users.getByFirebaseUid(account.uid);
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.status !== 404) throw error;
+  }
+  return api.users.create({
+    username: account.displayName || account.email?.split('@')[0] || account.uid,
+    email: account.email,
+    firebaseUid: account.uid,
+  });
+}
+
+/**
+ * The backend user id of a Firebase account, creating the backend user the first time the account
+ * signs in. Needs an auth token (api.setTokenSource) unless the account is already mapped.
+ */
+export function resolveUserId(account: FirebaseAccount): Promise<number> {
+  const inFlight = pending.get(account.uid);
+  if (inFlight) return inFlight;
+
+  const lookup = (async () => {
+    const known = await getMappedUserId(account.uid);
+    if (known != null) return known;
+
+    const user = toUser(await lookUp(account));
+    if (!user) throw new Error(`identity: backend returned no user id for ${account.uid}`);
+    await db.init_db();
+    await db.upsertUser(user);
+    await remember(account.uid, user.userId);
+    return user.userId;
+  })().finally(() => {
+    pending.delete(account.uid);
+  });
+  pending.set(account.uid, lookup);
+  return lookup;
+}
+
+export default {
+  getMappedUserId,
+  resolveUserId,
+};
@@ -0,0 +1,629 @@
+/*
+  mockBackend.ts — In-memory stand-in for the FriendSync REST backend
+
+  Implements the endpoints api.ts calls against fixtures held in memory, so sync, token handling
+  and error paths can be exercised without the deployed backend:
+
+    const backend = createMockBackend(defaultFixtures());
+    global.fetch = backend.fetch;       // in-process, e.g. under jest
+    startMockServer(backend, 4000);     // over HTTP, see mockServer.ts (npm run mock-server)
+
+  It follows the protocols the client relies on:
+
+  - feeds answer with { changed, deleted, cursor }: every row without `?since=`, otherwise what
+    changed after that cursor
+  - rows carry a `version`; a PUT based on an older version is refused with 409 { current }
+  - every request needs a Bearer token; revokeToken() makes one fail with 401
+  - a token names its user: the one /users/login issued it to, or the Firebase user of an ID token
+    (read without checking its signature). Only an event's owner may change or delete it, only the
+    two users of a friendship, and only the invitee or the event's owner an rsvp; anyone else gets 403
+  - failNext() and setOffline() simulate failing endpoints and a lost network
+  - the realtime channel (see realtime.ts) pushes every write to the feeds it belongs to;
+    `backend.WebSocket` connects to it in-process, mockServer.ts over HTTP
+*/
+
+import type { ApiEvent, ApiFriend, ApiNotification, ApiRsvp, ApiUser, ApiUserPrefs } from './api';
+import type { Row } from './dbTypes';
+import type { ClientMessage, ServerMessage } from './realtime';
+import type { FeedName } from './sync';
+
+export type MockUser = ApiUser & { password?: string };
+
+// Rows to start from. Missing ids are assigned in order; versions start at 1.
+export type MockFixtures = {
+  users?: MockUser[];
+  events?: ApiEvent[];
+  friends?: ApiFriend[];
+  rsvps?: ApiRsvp[];
+  notifications?: ApiNotification[];
+  userPrefs?: ApiUserPrefs[];
+};
+
+export type MockRequest = { method: string; path: string; body?: any; authorization?: string | null };
+export type MockResponse = { status: number; body?: any };
+
+type TableName = keyof MockFixtures;
+
+// Each row's id column; preferences are keyed by their user
+const KEYS: { [T in TableName]: string } = {
+  users: 'userId',
+  events: 'eventId',
+  friends: 'friendRowId',
+  rsvps: 'rsvpId',
+  notifications: 'notificationId',
+  userPrefs: 'userId',
+};
+
+const TABLES = Object.keys(KEYS) as TableName[];
+
+// `seq` is the change counter value of the row's last write; feeds hand it out as the cursor
+type Stored = { row: Row; seq: number };
+type Table = { rows: Map<number, Stored>; removed: Stored[]; nextId: number };
+
+// A user's feed: the table it reads and which rows belong to it. `belonged` decides for removed
+// rows, when that depends on rows removed along with them.
+type FeedDef = { table: TableName; belongs: (row: Row) => boolean; belonged?: (row: Row) => boolean };
+
+// A write since the last push
+type Change = { table: TableName; row: Row; removed: boolean };
+
+// Server side of one realtime connection
+export type MockChannel = {
+  // a message from the client
+  receive(text: string): void;
+  // the client went away
+  end(): void;
+};
+
+type Params = { [name: string]: string };
+// `caller` is the user the request's token belongs to, null if it names none
+type Handler = (req: { params: Params; query: URLSearchParams; body: any; caller: number | null }) => MockResponse;
+
+export type MockBackend = {
+  // Answer one request; `path` may carry the /api prefix and a query string
+  handle(req: MockRequest): MockResponse;
+  // A fetch() for in-process use
+  fetch: typeof fetch;
+  // Replace everything with `fixtures`
+  reset(fixtures?: MockFixtures): void;
+  // Current rows of every table
+  snapshot(): { [T in TableName]: Row[] };
+  // Requests answered so far, oldest first
+  requests: { method: string; path: string; status: number }[];
+  revokeToken(token: string): void;
+  // The next `times` requests whose path starts with `pathPrefix` fail with `status`
+  failNext(method: string | '*', pathPrefix: string, status: number, times?: number): void;
+  // While offline, fetch() rejects like a request that never reached the network and realtime
+  // connections drop
+  setOffline(offline: boolean): void;
+  // Accept a realtime connection: `send` delivers server messages, `close` ends the connection
+  openChannel(send: (message: ServerMessage) => void, close: (code: number, reason: string) => void): MockChannel;
+  // A WebSocket for in-process use, connected to openChannel()
+  WebSocket: typeof WebSocket;
+};
+
+// Close code for a refused token; the same as realtime.ts's AUTH_FAILED
+const AUTH_FAILED = 4401;
+
+const ok = (body: any, status = 200): MockResponse => ({ status, body });
+const fail = (status: number, message: string, extra: Row = {}): MockResponse => ({ status, body: { message, ...extra } });
+const clone = <T>(v: T): T => JSON.parse(JSON.stringify(v));
+
+export function createMockBackend(fixtures: MockFixtures = {}): MockBackend {
+  let tables = {} as { [T in TableName]: Table };
+  let seq = 0;
+  const revoked = new Set<string>();
+  const failures: { method: string; prefix: string; status: number; remaining: number }[] = [];
+  let offline = false;
+  const requests: MockBackend['requests'] = [];
+  let unpublished: Change[] = [];
+  const subscribers = new Set<{ userId: number; send: (message: ServerMessage) => void; close: (code: number, reason: string) => void }>();
+
+  // ---------- Store ----------
+
+  function out(table: TableName, row: Row): Row {
+    const copy = clone(row);
+    delete copy.password;
+    // users are also known by `id` to the older endpoints
+    return table === 'users' ? { id: copy.userId, ...copy } : copy;
+  }
+
+  function insert(table: TableName, fields: Row): Row {
+    const t = tables[table];
+    const key = KEYS[table];
+    const id = fields[key] != null ? Number(fields[key]) : t.nextId;
+    t.nextId = Math.max(t.nextId, id + 1);
+    const row = { ...fields, [key]: id, version: fields.version ?? 1, updatedAt: new Date().toISOString() };
+    delete row.id;
+    t.rows.set(id, { row, seq: ++seq });
+    unpublished.push({ table, row, removed: false });
+    return row;
+  }
+
+  function write(table: TableName, id: number, fields: Row): Row {
+    const stored = tables[table].rows.get(id)!;
+    const { version: _based, [KEYS[table]]: _id, id: _alias, ...changes } = fields;
+    stored.row = { ...stored.row, ...changes, version: Number(stored.row.version ?? 0) + 1, updatedAt: new Date().toISOString() };
+    stored.seq = ++seq;
+    unpublished.push({ table, row: stored.row, removed: false });
+    return stored.row;
+  }
+
+  function remove(table: TableName, id: number) {
+    const t = tables[table];
+    const stored = t.rows.get(id);
+    if (!stored) return;
+    t.rows.delete(id);
+    t.removed.push({ row: stored.row, seq: ++seq });
+    unpublished.push({ table, row: stored.row, removed: true });
+  }
+
+  const rows = (table: TableName) => Array.from(tables[table].rows.values()).map((s) => s.row);
+  const find = (table: TableName, id: number) => tables[table].rows.get(id)?.row ?? null;
+
+  function reset(next: MockFixtures = {}) {
+    tables = {} as typeof tables;
+    for (const name of TABLES) tables[name] = { rows: new Map(), removed: [], nextId: 1 };
+    seq = 0;
+    for (const name of TABLES) for (const row of next[name] ?? []) insert(name, row);
+    // every user has preferences, as the real backend creates them at sign-up
+    for (const u of rows('users')) if (!find('userPrefs', u.userId)) insert('userPrefs', defaultPrefs(u.userId));
+    unpublished = [];
+  }
+
+  const defaultPrefs = (userId: number): Row => ({ userId, theme: 0, notificationEnabled: 1, colorScheme: 0, shareFreeTime: 1 });
+
+  // ---------- Shared handlers ----------
+
+  // A feed's rows: every row, or what changed after the `since` cursor
+  function feed({ table, belongs, belonged = belongs }: FeedDef, query: URLSearchParams): MockResponse {
+    const after = Number(query.get('since')) || 0;
+    const t = tables[table];
+    return ok({
+      changed: Array.from(t.rows.values()).filter((s) => s.seq > after && belongs(s.row)).map((s) => out(table, s.row)),
+      deleted: t.removed.filter((s) => s.seq > after && belonged(s.row)).map((s) => s.row[KEYS[table]]),
+      cursor: String(seq),
+    });
+  }
+
+  function getOne(table: TableName, id: number): MockResponse {
+    const row = find(table, id);
+    return row ? ok(out(table, row)) : fail(404, `${table} ${id} not found`);
+  }
+
+  // Refuses updates based on an older version of the row with 409 and the row as it is now
+  function update(table: TableName, id: number, body: Row): MockResponse {
+    const row = find(table, id);
+    if (!row) return fail(404, `${table} ${id} not found`);
+    if (body?.version != null && Number(body.version) !== Number(row.version)) {
+      return fail(409, 'Version conflict', { current: out(table, row) });
+    }
+    return ok(out(table, write(table, id, body ?? {})));
+  }
+
+  function destroy(table: TableName, id: number): MockResponse {
+    if (!find(table, id)) return fail(404, `${table} ${id} not found`);
+    remove(table, id);
+    return { status: 204 };
+  }
+
+  // 403 unless `caller` is one of the users `ownersOf` names for the row; null if they are (or the
+  // row does not exist, which the handler reports)
+  function refuseUnlessOwner(table: TableName, id: number, caller: number | null, ownersOf: (row: Row) => number[]): MockResponse | null {
+    const row = find(table, id);
+    if (!row || (caller != null && ownersOf(row).includes(caller))) return null;
+    return fail(403, `Not allowed to change ${table} ${id}`);
+  }
+
+  const eventOwner = (e: Row) => [e.userId];
+  const friendPair = (f: Row) => [f.userId, f.friendId];
+  const rsvpParties = (r: Row) => [r.inviteRecipientId, r.eventOwnerId];
+
+  // The user a token belongs to: the one login issued it to, or the Firebase user an ID token names
+  function userOf(token: string): number | null {
+    const issued = /^mock-token-(\d+)-/.exec(token);
+    if (issued) return Number(issued[1]);
+    try {
+      const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+      const uid = payload.user_id ?? payload.sub;
+      return rows('users').find((u) => u.firebaseUid != null && u.firebaseUid === uid)?.userId ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Other users' events `userId` may see: free time of friends who share it, and invitations
+  function sharedFeed(userId: number): FeedDef {
+    const friendIds = new Set(
+      rows('friends')
+        .filter((f) => f.status === 'accepted' && (f.userId === userId || f.friendId === userId))
+        .map((f) => (f.userId === userId ? f.friendId : f.userId)),
+    );
+    const shares = (ownerId: number) => friendIds.has(ownerId) && Number(find('userPrefs', ownerId)?.shareFreeTime ?? 1) !== 0;
+    const isEvent = (e: Row) => Boolean(Number(e.isEvent ?? 1));
+    const invited = (rsvps: Row[], eventId: number) => rsvps.some((r) => r.eventId === eventId && r.inviteRecipientId === userId);
+    const current = rows('rsvps');
+    const all = [...current, ...tables.rsvps.removed.map((s) => s.row)];
+    return {
+      table: 'events',
+      belongs: (e) => e.userId !== userId && (isEvent(e) ? invited(current, e.eventId) : shares(e.userId)),
+      belonged: (e) => e.userId !== userId && (isEvent(e) ? invited(all, e.eventId) : friendIds.has(e.userId)),
+    };
+  }
+
+  function feedsOf(userId: number): { [F in FeedName]: FeedDef } {
+    return {
+      events: { table: 'events', belongs: (e) => e.userId === userId },
+      shared: sharedFeed(userId),
+      friends: { table: 'friends', belongs: (f) => f.userId === userId || f.friendId === userId },
+      // invitations to the user and the answers to the user's own events
+      rsvps: { table: 'rsvps', belongs: (r) => r.inviteRecipientId === userId || r.eventOwnerId === userId },
+      notifications: { table: 'notifications', belongs: (n) => n.userId === userId },
+    };
+  }
+
+  // ---------- Realtime ----------
+
+  // Send the writes of the last request to every subscriber whose feeds they belong to
+  function publish() {
+    const batch = unpublished;
+    unpublished = [];
+    if (batch.length === 0) return;
+    for (const subscriber of subscribers) {
+      const feeds = feedsOf(subscriber.userId);
+      for (const name of Object.keys(feeds) as FeedName[]) {
+        const { table, belongs, belonged = belongs } = feeds[name];
+        // the last write of each row wins
+        const latest = new Map<number, Change>();
+        for (const c of batch) if (c.table === table) latest.set(c.row[KEYS[table]], c);
+        const touched = Array.from(latest.values());
+        const changed = touched.filter((c) => !c.removed && belongs(c.row)).map((c) => out(table, c.row));
+        const deleted = touched.filter((c) => c.removed && belonged(c.row)).map((c) => c.row[KEYS[table]]);
+        if (changed.length || deleted.length) subscriber.send({ type: 'change', feed: name, changed, deleted });
+      }
+    }
+  }
+
+  // Tokens are checked like a request's; the first message must carry one
+  function openChannel(send: (message: ServerMessage) => void, close: (code: number, reason: string) => void): MockChannel {
+    let subscriber: { userId: number; send: typeof send; close: typeof close } | null = null;
+    return {
+      receive(text) {
+        let message: ClientMessage;
+        try {
+          message = JSON.parse(text);
+        } catch {
+          close(1003, 'Messages must be JSON');
+          return;
+        }
+        if (message.type !== 'auth' || subscriber) return;
+        const token = message.token;
+        if (!token || token === 'null' || revoked.has(token) || !find('users', Number(message.userId))) {
+          close(AUTH_FAILED, 'Missing or expired token');
+          return;
+        }
+        subscriber = { userId: Number(message.userId), send, close };
+        subscribers.add(subscriber);
+        send({ type: 'ready' });
+      },
+      end() {
+        if (subscriber) subscribers.delete(subscriber);
+        subscriber = null;
+      },
+    };
+  }
+
+  const sockets = new Set<MockSocket>();
+
+  // Delivers asynchronously, like a socket
+  class MockSocket {
+    static readonly CONNECTING = 0;
+    static readonly OPEN = 1;
+    static readonly CLOSING = 2;
+    static readonly CLOSED = 3;
+    readyState = MockSocket.CONNECTING;
+    onopen: ((event: any) => void) | null = null;
+    onmessage: ((event: { data: string }) => void) | null = null;
+    onclose: ((event: { code: number; reason: string }) => void) | null = null;
+    onerror: ((event: any) => void) | null = null;
+    private channel: MockChannel;
+
+    constructor(readonly url: string) {
+      this.channel = openChannel(
+        (message) => this.later(() => this.onmessage?.({ data: JSON.stringify(message) })),
+        (code, reason) => this.close(code, reason),
+      );
+      this.later(() => {
+        if (offline) {
+          this.onerror?.({});
+          this.close(1006, 'Network request failed');
+          return;
+        }
+        this.readyState = MockSocket.OPEN;
+        sockets.add(this);
+        this.onopen?.({});
+      });
+    }
+
+    send(data: string) {
+      if (this.readyState !== MockSocket.OPEN) throw new Error('WebSocket is not open');
+      this.channel.receive(data);
+    }
+
+    close(code = 1000, reason = '') {
+      if (this.readyState === MockSocket.CLOSED) return;
+      this.readyState = MockSocket.CLOSED;
+      sockets.delete(this);
+      this.channel.end();
+      this.later(() => this.onclose?.({ code, reason }));
+    }
+
+    private later(fn: () => void) {
+      setTimeout(fn, 0);
+    }
+  }
+
+  const idParam = (params: Params) => Number(params.id);
+  const missing = (body: any, fields: string[]) => fields.filter((f) => body?.[f] == null);
+
+  // ---------- Routes ----------
+
+  const routes: [string, string, Handler][] = [
+    // users
+    ['GET', '/users', () => ok(rows('users').map((r) => out('users', r)))],
+    ['GET', '/users/firebase/:uid', ({ params }) => {
+      const user = rows('users').find((u) => u.firebaseUid === params.uid);
+      return user ? ok(out('users', user)) : fail(404, 'No user for this account');
+    }],
+    ['GET', '/users/:id', ({ params }) => getOne('users', idParam(params))],
+    ['POST', '/users', ({ body }) => {
+      const lacking = missing(body, ['username']);
+      if (lacking.length) return fail(400, `Missing ${lacking.join(', ')}`);
+      if (body.firebaseUid && rows('users').some((u) => u.firebaseUid === body.firebaseUid)) {
+        return fail(409, 'Account already registered');
+      }
+      const user = insert('users', { username: body.username, email: body.email ?? null, firebaseUid: body.firebaseUid ?? null, password: body.password });
+      insert('userPrefs', defaultPrefs(user.userId));
+      return ok(out('users', user), 201);
+    }],
+    ['POST', '/users/login', ({ body }) => {
+      const user = rows('users').find((u) => u.username === body?.username);
+      if (!user || user.password == null || user.password !== body?.password) return fail(401, 'Invalid username or password');
+      return ok({ user: out('users', user), token: `mock-token-${user.userId}-${seq}` });
+    }],
+
+    // friends
+    ['GET', '/friends/user/:id', ({ params, query }) => {
+      return feed(feedsOf(idParam(params)).friends, query);
+    }],
+    ['GET', '/friends/pending/:id', ({ params }) => {
+      const id = idParam(params);
+      return ok(rows('friends').filter((f) => f.friendId === id && f.status === 'pending').map((r) => out('friends', r)));
+    }],
+    ['GET', '/friends/:id', ({ params }) => getOne('friends', idParam(params))],
+    ['POST', '/friends', ({ body }) => {
+      const lacking = missing(body, ['userId', 'friendId']);
+      if (lacking.length) return fail(400, `Missing ${lacking.join(', ')}`);
+      const a = Number(body.userId);
+      const b = Number(body.friendId);
+      if (rows('friends').some((f) => (f.userId === a && f.friendId === b) || (f.userId === b && f.friendId === a))) {
+        return fail(409, 'These users are already connected');
+      }
+      return ok(out('friends', insert('friends', { userId: a, friendId: b, status: body.status ?? 'pending' })), 201);
+    }],
+    ['PUT', '/friends/:id', ({ params, body, caller }) => {
+      const id = idParam(params);
+      return refuseUnlessOwner('friends', id, caller, friendPair) ?? update('friends', id, body);
+    }],
+    ['DELETE', '/friends/:id', ({ params, caller }) => {
+      const id = idParam(params);
+      return refuseUnlessOwner('friends', id, caller, friendPair) ?? destroy('friends', id);
+    }],
+
+    // events
+    ['GET', '/events', () => ok(rows('events').map((r) => out('events', r)))],
+    ['GET', '/events/user/:id', ({ params, query }) => {
+      return feed(feedsOf(idParam(params)).events, query);
+    }],
+    ['GET', '/events/shared/user/:id', ({ params, query }) => feed(feedsOf(idParam(params)).shared, query)],
+    ['GET', '/events/type/:isEvent', ({ params }) => {
+      const want = params.isEvent === 'true';
+      return ok(rows('events').filter((e) => Boolean(Number(e.isEvent ?? 1)) === want).map((r) => out('events', r)));
+    }],
+    ['GET', '/events/:id', ({ params }) => getOne('events', idParam(params))],
+    ['POST', '/events', ({ body }) => {
+      const lacking = missing(body, ['userId', 'startTime']);
+      if (lacking.length) return fail(400, `Missing ${lacking.join(', ')}`);
+      return ok(out('events', insert('events', { isEvent: 1, recurring: 0, ...body, version: 1 })), 201);
+    }],
+    ['PUT', '/events/:id', ({ params, body, caller }) => {
+      const id = idParam(params);
+      return refuseUnlessOwner('events', id, caller, eventOwner) ?? update('events', id, body);
+    }],
+    ['DELETE', '/events/:id', ({ params, caller }) => {
+      const id = idParam(params);
+      const refused = refuseUnlessOwner('events', id, caller, eventOwner);
+      if (refused) return refused;
+      const res = destroy('events', id);
+      // the event's rsvps go with it
+      if (res.status === 204) rows('rsvps').filter((r) => r.eventId === id).forEach((r) => remove('rsvps', r.rsvpId));
+      return res;
+    }],
+
+    // rsvps
+    ['GET', '/rsvps/user/:id/pending', ({ params }) => {
+      const id = idParam(params);
+      return ok(rows('rsvps').filter((r) => r.inviteRecipientId === id && r.status === 'pending').map((r) => out('rsvps', r)));
+    }],
+    ['GET', '/rsvps/user/:id', ({ params, query }) => {
+      return feed(feedsOf(idParam(params)).rsvps, query);
+    }],
+    ['GET', '/rsvps/event/:id/summary', ({ params }) => {
+      const id = idParam(params);
+      const summary: { [status: string]: number } = { pending: 0, accepted: 0, declined: 0 };
+      rows('rsvps').filter((r) => r.eventId === id).forEach((r) => { summary[r.status] = (summary[r.status] ?? 0) + 1; });
+      return ok(summary);
+    }],
+    ['GET', '/rsvps/:id', ({ params }) => getOne('rsvps', idParam(params))],
+    ['POST', '/rsvps', ({ body }) => {
+      const lacking = missing(body, ['eventId', 'inviteRecipientId']);
+      if (lacking.length) return fail(400, `Missing ${lacking.join(', ')}`);
+      const event = find('events', Number(body.eventId));
+      if (!event) return fail(404, `events ${body.eventId} not found`);
+      if (rows('rsvps').some((r) => r.eventId === event.eventId && r.inviteRecipientId === Number(body.inviteRecipientId))) {
+        return fail(409, 'Already invited');
+      }
+      const rsvp = insert('rsvps', {
+        eventId: event.eventId,
+        eventOwnerId: body.eventOwnerId ?? event.userId,
+        inviteRecipientId: Number(body.inviteRecipientId),
+        status: body.status ?? 'pending',
+        createdAt: new Date().toISOString(),
+      });
+      return ok(out('rsvps', rsvp), 201);
+    }],
+    ['PUT', '/rsvps/:id', ({ params, body, caller }) => {
+      const id = idParam(params);
+      return refuseUnlessOwner('rsvps', id, caller, rsvpParties) ?? update('rsvps', id, body);
+    }],
+    ['DELETE', '/rsvps/:id', ({ params, caller }) => {
+      const id = idParam(params);
+      return refuseUnlessOwner('rsvps', id, caller, rsvpParties) ?? destroy('rsvps', id);
+    }],
+
+    // notifications
+    ['GET', '/notifications/user/:id', ({ params, query }) => {
+      return feed(feedsOf(idParam(params)).notifications, query);
+    }],
+
+    // preferences
+    ['GET', '/user-prefs/user/:id', ({ params }) => getOne('userPrefs', idParam(params))],
+    ['PUT', '/user-prefs/user/:id', ({ params, body }) => {
+      const id = idParam(params);
+      if (!find('users', id)) return fail(404, `users ${id} not found`);
+      if (!find('userPrefs', id)) insert('userPrefs', defaultPrefs(id));
+      return update('userPrefs', id, body);
+    }],
+  ];
+
+  function match(pattern: string, path: string): Params | null {
+    const want = pattern.split('/');
+    const got = path.split('/');
+    if (want.length !== got.length) return null;
+    const params: Params = {};
+    for (let i = 0; i < want.length; i++) {
+      if (want[i].startsWith(':')) params[want[i].slice(1)] = decodeURIComponent(got[i]);
+      else if (want[i] !== got[i]) return null;
+    }
+    return params;
+  }
+
+  function route(method: string, path: string, query: URLSearchParams, body: any, authorization?: string | null): MockResponse {
+    const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null;
+    // login is how a token is obtained
+    const open = method === 'POST' && path === '/users/login';
+    if (!open && (!token || token === 'null' || revoked.has(token))) return fail(401, 'Missing or expired token');
+
+    const injected = failures.find((f) => f.remaining > 0 && (f.method === '*' || f.method === method) && path.startsWith(f.prefix));
+    if (injected) {
+      injected.remaining -= 1;
+      return fail(injected.status, 'Injected failure');
+    }
+
+    for (const [m, pattern, handler] of routes) {
+      if (m !== method) continue;
+      const params = match(pattern, path);
+      if (params) return handler({ params, query, body, caller: token ? userOf(token) : null });
+    }
+    return fail(404, `No route for ${method} ${path}`);
+  }
+
+  function handle({ method, path, body, authorization }: MockRequest): MockResponse {
+    const url = new URL(path, 'http://mock.local');
+    const bare = url.pathname.replace(/^\/api(?=\/)/, '').replace(/\/+$/, '') || '/';
+    const res = route(method.toUpperCase(), bare, url.searchParams, body, authorization);
+    requests.push({ method: method.toUpperCase(), path: bare + url.search, status: res.status });
+    publish();
+    return res;
+  }
+
+  reset(fixtures);
+
+  return {
+    handle,
+    fetch: (async (input: any, init?: RequestInit) => {
+      if (offline) throw new TypeError('Network request failed');
+      const headers = (init?.headers ?? {}) as { [name: string]: string };
+      const res = handle({
+        method: init?.method ?? 'GET',
+        path: String(input),
+        body: typeof init?.body === 'string' && init.body ? JSON.parse(init.body) : undefined,
+        authorization: headers.Authorization ?? headers.authorization ?? null,
+      });
+      const text = res.body === undefined ? '' : JSON.stringify(res.body);
+      return {
+        ok: res.status >= 200 && res.status < 300,
+        status: res.status,
+        json: async () => JSON.parse(text),
+        text: async () => text,
+      } as unknown as Response;
+    }) as typeof fetch,
+    reset,
+    snapshot: () => {
+      const snap = {} as { [T in TableName]: Row[] };
+      for (const name of TABLES) snap[name] = rows(name).map((r) => clone(r));
+      return snap;
+    },
+    requests,
+    revokeToken: (token) => {
+      revoked.add(token);
+    },
+    failNext: (method, pathPrefix, status, times = 1) => {
+      failures.push({ method: method.toUpperCase(), prefix: pathPrefix, status, remaining: times });
+    },
+    setOffline: (value) => {
+      offline = value;
+      if (offline) for (const socket of Array.from(sockets)) socket.close(1006, 'Network request failed');
+    },
+    openChannel,
+    WebSocket: MockSocket as unknown as typeof WebSocket,
+  };
+}
+
+/**
+ * A small world like seedDummyData's: alice, bob and carol (alice and bob are friends, as are bob
+ * and carol, and carol has asked alice), some events and free time around now, an invitation for
+ * alice, and the `testuser` / `testpass` account ApiTestScreen logs in with.
+ */
+export function defaultFixtures(now: Date = new Date()): MockFixtures {
+  const at = (days: number, hour: number) => {
+    const d = new Date(now.getFullYear(), now.getMonth(), now.getDate() + days, hour);
+    return d.toISOString();
+  };
+  const day = (days: number) => at(days, 12).slice(0, 10);
+  return {
+    users: [
+      { userId: 1, username: 'alice', email: 'alice@example.com', password: 'alice' },
+      { userId: 2, username: 'bob', email: 'bob@example.com', password: 'bob' },
+      { userId: 3, username: 'carol', email: 'carol@example.com', password: 'carol' },
+      { userId: 4, username: 'testuser', email: 'test@example.com', password: 'testpass' },
+    ],
+    friends: [
+      { friendRowId: 1, userId: 1, friendId: 2, status: 'accepted' },
+      { friendRowId: 2, userId: 2, friendId: 3, status: 'accepted' },
+      { friendRowId: 3, userId: 3, friendId: 1, status: 'pending' },
+    ],
+    events: [
+      { eventId: 1, userId: 1, eventTitle: 'Coffee', description: 'Catch up', startTime: at(1, 10), endTime: at(1, 11), date: day(1), isEvent: 1, recurring: 0 },
+      { eventId: 2, userId: 1, startTime: at(2, 14), endTime: at(2, 17), date: day(2), isEvent: 0, recurring: 0 },
+      { eventId: 3, userId: 2, eventTitle: 'Board games', startTime: at(3, 19), endTime: at(3, 22), date: day(3), isEvent: 1, recurring: 0 },
+      { eventId: 4, userId: 2, startTime: at(2, 15), endTime: at(2, 18), date: day(2), isEvent: 0, recurring: 0 },
+    ],
+    rsvps: [
+      { rsvpId: 1, eventId: 3, eventOwnerId: 2, inviteRecipientId: 1, status: 'pending' },
+    ],
+    notifications: [
+      { notificationId: 1, userId: 1, notifMsg: 'bob invited you to Board games', notifType: 'invite', createdAt: now.toISOString() },
+    ],
+  };
+}
@@ -0,0 +1,150 @@
+/// <reference types="node" />
+/*
+  mockServer.ts — Serve a MockBackend (mockBackend.ts) over HTTP
+
+    npm run mock-server                                   # http://localhost:4000/api, PORT to change
+    EXPO_PUBLIC_ENV=local npx expo start                  # or pick Local in the debug panel (config.ts)
+
+  Starts from defaultFixtures(). Answers CORS preflights so the web build can call it from another
+  port, and accepts the realtime channel (realtime.ts) at ws://localhost:4000/api/realtime. Node
+  only; nothing in the app imports this file.
+*/
+
+import crypto from 'crypto';
+import http from 'http';
+import type { Duplex } from 'stream';
+import { createMockBackend, defaultFixtures, MockBackend } from './mockBackend';
+
+const CORS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+};
+
+export function startMockServer(backend: MockBackend, port = 4000): http.Server {
+  const server = http.createServer((req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS);
+      res.end();
+      return;
+    }
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      let body: any;
+      try {
+        body = raw ? JSON.parse(raw) : undefined;
+      } catch {
+        res.writeHead(400, { ...CORS, 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'Body is not valid JSON' }));
+        return;
+      }
+      const out = backend.handle({ method: req.method ?? 'GET', path: req.url ?? '/', body, authorization: req.headers.authorization ?? null });
+      res.writeHead(out.status, { ...CORS, 'Content-Type': 'application/json' });
+      res.end(out.body === undefined ? '' : JSON.stringify(out.body));
+      console.log(`${req.method} ${req.url} -> ${out.status}`);
+    });
+  });
+  server.on('upgrade', (req, socket) => {
+    const path = (req.url ?? '').split('?')[0].replace(/\/+$/, '');
+    if (path !== '/api/realtime' || !req.headers['sec-websocket-key']) {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      return;
+    }
+    acceptSocket(backend, req, socket);
+    console.log(`realtime connection from ${req.socket.remoteAddress}`);
+  });
+  server.listen(port);
+  return server;
+}
+
+// ---------- Realtime ----------
+
+// Just enough of the WebSocket protocol (RFC 6455) for the realtime channel: unfragmented text
+// frames, ping and close, no extensions.
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE = { text: 0x1, close: 0x8, ping: 0x9, pong: 0xa };
+
+// A server frame (never masked)
+function frame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  let head: Buffer;
+  if (length < 126) {
+    head = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    head = Buffer.alloc(4);
+    head[1] = 126;
+    head.writeUInt16BE(length, 2);
+  } else {
+    head = Buffer.alloc(10);
+    head[1] = 127;
+    head.writeBigUInt64BE(BigInt(length), 2);
+  }
+  head[0] = 0x80 | opcode;
+  return Buffer.concat([head, payload]);
+}
+
+function acceptSocket(backend: MockBackend, req: http.IncomingMessage, socket: Duplex) {
+  const accept = crypto.createHash('sha1').update(`${req.headers['sec-websocket-key']}${WS_GUID}`).digest('base64');
+  socket.write(['HTTP/1.1 101 Switching Protocols', 'Upgrade: websocket', 'Connection: Upgrade', `Sec-WebSocket-Accept: ${accept}`, '', ''].join('\r\n'));
+
+  let closed = false;
+  const close = (code: number, reason: string) => {
+    if (closed) return;
+    closed = true;
+    channel.end();
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    socket.end(frame(OPCODE.close, Buffer.concat([payload, Buffer.from(reason)])));
+  };
+  const channel = backend.openChannel((message) => {
+    if (!closed) socket.write(frame(OPCODE.text, Buffer.from(JSON.stringify(message))));
+  }, close);
+
+  // client frames are masked and may arrive split over several chunks
+  let buffered = Buffer.alloc(0);
+  socket.on('data', (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    while (buffered.length >= 2) {
+      const opcode = buffered[0] & 0x0f;
+      const masked = (buffered[1] & 0x80) !== 0;
+      let length = buffered[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffered.length < 4) return;
+        length = buffered.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffered.length < 10) return;
+        length = Number(buffered.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const mask = masked ? buffered.subarray(offset, offset + 4) : null;
+      if (mask) offset += 4;
+      if (buffered.length < offset + length) return;
+
+      const payload = Buffer.from(buffered.subarray(offset, offset + length));
+      if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffered = buffered.subarray(offset + length);
+
+      if (opcode === OPCODE.text) channel.receive(payload.toString('utf8'));
+      else if (opcode === OPCODE.ping) socket.write(frame(OPCODE.pong, payload));
+      else if (opcode === OPCODE.close) close(1000, '');
+    }
+  });
+  socket.on('close', () => {
+    closed = true;
+    channel.end();
+  });
+  socket.on('error', () => socket.destroy());
+}
+
+if (require.main === module) {
+  const port = Number(process.env.PORT) || 4000;
+  startMockServer(createMockBackend(defaultFixtures()), port);
+  console.log(`Mock FriendSync backend listening on http://localhost:${port}/api`);
+}
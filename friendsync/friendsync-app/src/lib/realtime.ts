@@ -0,0 +1,178 @@
+/*
+  realtime.ts — Live updates pushed by the backend
+
+  Alongside the polling in sync.ts, a WebSocket at `<backend>/api/realtime` (ws:// or wss://; config.ts)
+  delivers changes to the signed-in user's feeds as they happen:
+
+    client -> { type: 'auth', token, userId }               first message once connected
+    server -> { type: 'ready' }                             subscribed
+    server -> { type: 'change', feed, changed, deleted }    rows and deleted ids of one feed
+
+  The token travels in the first message because browsers cannot set headers on a WebSocket; a
+  refused token closes the socket with AUTH_FAILED. Changes are stored by sync.applyPushedChanges(),
+  the same way a pulled delta is.
+
+  While the socket is up, polling slows to a safety net (sync.setLiveUpdates). When it drops, polling
+  takes over at the normal interval, the socket reconnects with backoff, and a sync on reconnect
+  fetches what was missed. The socket is closed while the app is in the background.
+*/
+
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { getAuthToken } from './api';
+import { getApiBaseUrl } from './config';
+import { applyPushedChanges, FeedName, setLiveUpdates, syncNow } from './sync';
+
+export type ClientMessage = { type: 'auth'; token: string | null; userId: number };
+
+export type ServerMessage =
+  | { type: 'ready' }
+  | { type: 'change'; feed: FeedName; changed: any[]; deleted: number[] };
+
+// Close code the server uses for a missing or refused token
+export const AUTH_FAILED = 4401;
+
+// Reconnect delay after the first drop, doubled with every failed attempt up to RECONNECT_MAX
+const RECONNECT_BASE = 1000;
+const RECONNECT_MAX = 60 * 1000;
+
+let socket: WebSocket | null = null;
+let liveUserId: number | null = null;
+let attempts = 0;
+// the connection was lost since the last `ready`, so changes may have been missed
+let dropped = false;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let backgrounded = false;
+let appStateSubscription: NativeEventSubscription | null = null;
+
+const realtimeUrl = () => `${getApiBaseUrl().replace(/^http/, 'ws')}/api/realtime`;
+
+function connect() {
+  const userId = liveUserId;
+  if (userId == null || socket || backgrounded) return;
+
+  let ws: WebSocket;
+  try {
+    ws = new WebSocket(realtimeUrl());
+  } catch (error) {
+    console.warn('Realtime: could not open socket:', error);
+    scheduleReconnect();
+    return;
+  }
+  socket = ws;
+
+  ws.onopen = () => {
+    getAuthToken()
+      .then((token) => {
+        const hello: ClientMessage = { type: 'auth', token, userId };
+        if (socket === ws) ws.send(JSON.stringify(hello));
+      })
+      .catch((error) => {
+        console.warn('Realtime: no token for the socket:', error);
+        ws.close();
+      });
+  };
+  ws.onmessage = (event) => receive(userId, event.data);
+  ws.onclose = (event) => {
+    if (socket !== ws) return;
+    socket = null;
+    dropped = true;
+    setLiveUpdates(false);
+    if (event.code === AUTH_FAILED) console.warn('Realtime: token refused');
+    scheduleReconnect();
+  };
+  // a close event follows every error
+  ws.onerror = () => {};
+}
+
+function receive(userId: number, data: unknown) {
+  let message: ServerMessage;
+  try {
+    message = JSON.parse(String(data));
+  } catch {
+    console.warn('Realtime: ignoring a message that is not JSON');
+    return;
+  }
+  if (message.type === 'ready') {
+    attempts = 0;
+    setLiveUpdates(true);
+    if (dropped) {
+      dropped = false;
+      syncNow();
+    }
+  } else if (message.type === 'change') {
+    applyPushedChanges(userId, message.feed, message.changed ?? [], message.deleted ?? []).catch((error) =>
+      console.warn(`Realtime: could not store pushed ${message.feed} changes:`, error),
+    );
+  }
+}
+
+// Backoff with some jitter, like the sync retries
+function scheduleReconnect() {
+  if (liveUserId == null || backgrounded || reconnectTimer) return;
+  const delay = Math.min(RECONNECT_MAX, RECONNECT_BASE * 2 ** attempts);
+  attempts += 1;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, Math.round(delay * (0.8 + Math.random() * 0.4)));
+}
+
+function disconnect() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  const ws = socket;
+  socket = null;
+  ws?.close();
+  setLiveUpdates(false);
+}
+
+// Nothing is pushed to a backgrounded app; sync.ts catches up when it returns to the foreground
+function onAppStateChange(next: AppStateStatus) {
+  if (next === 'background') {
+    backgrounded = true;
+    disconnect();
+    dropped = false;
+  } else if (next === 'active' && backgrounded) {
+    backgrounded = false;
+    attempts = 0;
+    connect();
+  }
+}
+
+/**
+ * Subscribe to live updates for `userId`. Meant to run next to sync.startAutoSync(); without
+ * WebSocket support the app keeps polling.
+ */
+export function startRealtime(userId: number) {
+  if (liveUserId === userId) return;
+  if (liveUserId != null) stopRealtime();
+  if (typeof WebSocket === 'undefined') {
+    console.log('Realtime: WebSocket not available, polling only');
+    return;
+  }
+
+  liveUserId = userId;
+  attempts = 0;
+  dropped = false;
+  backgrounded = AppState.currentState === 'background';
+  appStateSubscription = AppState.addEventListener('change', onAppStateChange);
+  connect();
+}
+
+/**
+ * Close the realtime channel, e.g. on sign-out
+ */
+export function stopRealtime() {
+  if (liveUserId == null) return;
+  liveUserId = null;
+  appStateSubscription?.remove();
+  appStateSubscription = null;
+  disconnect();
+}
+
+export default {
+  startRealtime,
+  stopRealtime,
+};
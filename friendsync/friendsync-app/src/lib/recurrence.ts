@@ -0,0 +1,357 @@
+/*
+  recurrence.ts — Repeating events
+
+  A repeating event is stored once, with the times of its first occurrence, and expanded into
+  occurrences for whatever range is on screen. Its rule is an iCalendar RRULE value (RFC 5545) in
+  `Event.rrule`; rows written before that column existed only have the `recurring` code
+  (Recurrence), which reads as the matching plain rule.
+
+    FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20261231T225959Z   every other Monday and Wednesday
+    FREQ=MONTHLY;BYDAY=-1FR;COUNT=6                             the last Friday of six months
+
+  Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (with an ordinal under
+  MONTHLY; ignored under YEARLY), UNTIL and COUNT. Weeks start on Monday. Any other part is kept in
+  the text but ignored when expanding.
+
+  `Event.exdates` lists the start times of occurrences that were removed; they are skipped but
+  still count towards COUNT, as in iCalendar. Occurrences repeat in local time, so a 9:00 event
+  stays at 9:00 across daylight-saving changes.
+*/
+
+import { Event, Recurrence, toRecurrence } from './dbTypes';
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+// One BYDAY entry. `nth` picks the nth such weekday of the month (1 = first, -1 = last).
+export type ByDay = { day: Weekday; nth?: number };
+
+export type RecurrenceRule = {
+  freq: Frequency;
+  interval: number;
+  byDay?: ByDay[];
+  // last possible start, as an ISO string
+  until?: string | null;
+  // number of occurrences, exdates included
+  count?: number | null;
+};
+
+// An event as it happens on one day: the series row with this occurrence's times.
+// recurrenceId is the occurrence's original start (ISO, UTC), or null for an event that does not repeat.
+export type Occurrence<E extends Event = Event> = E & { recurrenceId: string | null };
+
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+// in Date.getDay() order
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound on periods walked through for one series, so a malformed rule cannot hang the UI
+const MAX_PERIODS = 10000;
+
+// ---------- iCalendar dates ----------
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// Milliseconds `timeZone` is ahead of UTC at `time`; throws RangeError for an unknown zone
+export function zoneOffset(time: number, timeZone: string): number {
+  const parts: { [type: string]: string } = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(new Date(time)).forEach((p) => { parts[p.type] = p.value; });
+  return Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute), Number(parts.second)) - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * An iCalendar DATE or DATE-TIME (20261231, 20261231T090000, 20261231T090000Z). Without the Z it
+ * is wall time in `timeZone` (an IANA name, from a TZID parameter), or local time if that is missing
+ * or unknown; a bare date is the start of that day. Null if the text is neither.
+ */
+export function parseIcsDate(text: string, timeZone?: string | null): Date | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(text.trim());
+  if (!m) return null;
+  const [, y, mo, d, h = '0', mi = '0', s = '0', utc] = m;
+  const parts = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)] as const;
+  if (utc) return new Date(Date.UTC(...parts));
+  if (timeZone) {
+    try {
+      // the offset at the wall time itself can be off by a DST shift, so look it up a second time
+      const wall = Date.UTC(...parts);
+      const guess = wall - zoneOffset(wall, timeZone);
+      return new Date(wall - zoneOffset(guess, timeZone));
+    } catch {
+      // not a zone this runtime knows, e.g. a Windows name; fall through to local time
+    }
+  }
+  return new Date(...parts);
+}
+
+// A DATE-TIME in UTC (20261231T225959Z), or as wall time in `timeZone` (20261231T235959)
+export function formatIcsDate(date: Date, timeZone?: string | null): string {
+  const shifted = timeZone ? new Date(date.getTime() + zoneOffset(date.getTime(), timeZone)) : date;
+  const text = `${shifted.getUTCFullYear()}${pad(shifted.getUTCMonth() + 1)}${pad(shifted.getUTCDate())}T${pad(shifted.getUTCHours())}${pad(shifted.getUTCMinutes())}${pad(shifted.getUTCSeconds())}`;
+  return timeZone ? text : `${text}Z`;
+}
+
+// ---------- Rules ----------
+
+/**
+ * Parse an RRULE value, with or without the `RRULE:` prefix. Null if it has no valid FREQ.
+ */
+export function parseRule(text: string | null | undefined): RecurrenceRule | null {
+  if (!text) return null;
+  const parts = new Map<string, string>();
+  for (const part of text.trim().replace(/^RRULE:/i, '').split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value != null) parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) return null;
+  const rule: RecurrenceRule = { freq, interval: Math.max(1, Math.floor(Number(parts.get('INTERVAL'))) || 1) };
+
+  const byDay = (parts.get('BYDAY') ?? '')
+    .split(',')
+    .map((entry) => /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(entry))
+    .filter((m): m is RegExpExecArray => m != null)
+    .map((m) => (m[1] && Number(m[1]) !== 0 ? { day: m[2] as Weekday, nth: Number(m[1]) } : { day: m[2] as Weekday }));
+  if (byDay.length) rule.byDay = byDay;
+
+  const until = parts.get('UNTIL');
+  if (until) {
+    const date = parseIcsDate(until);
+    // a bare date includes that whole day
+    if (date && /^\d{8}$/.test(until)) date.setHours(23, 59, 59);
+    if (date) rule.until = date.toISOString();
+  }
+  const count = Math.floor(Number(parts.get('COUNT')));
+  if (count > 0) rule.count = count;
+  return rule;
+}
+
+export function formatRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map((b) => `${b.nth ?? ''}${b.day}`).join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${formatIcsDate(new Date(rule.until))}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+// The plain rule a legacy `recurring` code stands for
+export function ruleFromRecurrence(code: Recurrence | number | null | undefined): RecurrenceRule | null {
+  switch (toRecurrence(code)) {
+    case Recurrence.Daily: return { freq: 'DAILY', interval: 1 };
+    case Recurrence.Weekly: return { freq: 'WEEKLY', interval: 1 };
+    case Recurrence.Monthly: return { freq: 'MONTHLY', interval: 1 };
+    default: return null;
+  }
+}
+
+// The closest legacy `recurring` code for a rule, still written for clients that only read that
+export function recurrenceOf(rule: RecurrenceRule | null): Recurrence {
+  if (!rule) return Recurrence.None;
+  if (rule.freq === 'DAILY') return Recurrence.Daily;
+  if (rule.freq === 'WEEKLY') return Recurrence.Weekly;
+  if (rule.freq === 'MONTHLY') return Recurrence.Monthly;
+  return Recurrence.None;
+}
+
+/**
+ * How `event` repeats: its RRULE, else its legacy `recurring` code; null if it does not repeat.
+ */
+export function ruleOf(event: Pick<Event, 'rrule' | 'recurring'>): RecurrenceRule | null {
+  return event.rrule ? parseRule(event.rrule) : ruleFromRecurrence(event.recurring);
+}
+
+const DAY_NAMES: { [D in Weekday]: string } = { SU: 'Sun', MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat' };
+const UNITS: { [F in Frequency]: string } = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+const ORDINALS: { [n: string]: string } = { '1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '5': 'fifth', '-1': 'last', '-2': 'second to last' };
+
+/**
+ * A short description for the UI, e.g. "Every 2 weeks on Mon, Wed until Dec 31, 2026"
+ */
+export function describeRule(rule: RecurrenceRule): string {
+  const unit = UNITS[rule.freq];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : rule.freq === 'DAILY' ? 'Daily' : `${rule.freq[0]}${rule.freq.slice(1).toLowerCase()}`;
+  if (rule.byDay?.length && rule.freq !== 'YEARLY') {
+    text += ` on ${rule.byDay.map((b) => (b.nth && rule.freq === 'MONTHLY' ? `the ${ORDINALS[b.nth] ?? `${b.nth}.`} ${DAY_NAMES[b.day]}` : DAY_NAMES[b.day])).join(', ')}`;
+  }
+  if (rule.until) text += ` until ${new Date(rule.until).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  if (rule.count) text += `, ${rule.count} times`;
+  return text;
+}
+
+// ---------- Expansion ----------
+
+// `start`'s time of day on another local date; Date rolls over out-of-range days and months
+const at = (start: Date, year: number, month: number, day: number) =>
+  new Date(year, month, day, start.getHours(), start.getMinutes(), start.getSeconds(), start.getMilliseconds());
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+// Days of `month` matching `byDay`: every such weekday, or only the nth one
+function monthDays(year: number, month: number, byDay: ByDay[]): number[] {
+  const last = daysInMonth(year, month);
+  const days = new Set<number>();
+  for (const { day, nth } of byDay) {
+    const weekday = WEEKDAYS.indexOf(day);
+    const first = 1 + ((weekday - new Date(year, month, 1).getDay() + 7) % 7);
+    const all: number[] = [];
+    for (let d = first; d <= last; d += 7) all.push(d);
+    if (!nth) all.forEach((d) => days.add(d));
+    else {
+      const picked = nth > 0 ? all[nth - 1] : all[all.length + nth];
+      if (picked != null) days.add(picked);
+    }
+  }
+  return Array.from(days).sort((a, b) => a - b);
+}
+
+/**
+ * Candidate starts of a series in order, from its first start on. `skipTo` lets rules without
+ * COUNT begin near a later date instead of walking every period since the start.
+ */
+function* starts(start: Date, rule: RecurrenceRule, skipTo: number | null): Generator<Date> {
+  const { interval } = rule;
+  const y = start.getFullYear();
+  const m = start.getMonth();
+  const d = start.getDate();
+  const wanted = new Set((rule.byDay ?? []).map((b) => WEEKDAYS.indexOf(b.day)));
+
+  // periods of fixed length can be skipped arithmetically; a period's worth of slack covers DST
+  const skipped = (periodDays: number) =>
+    skipTo == null || skipTo <= start.getTime() ? 0 : Math.max(0, Math.floor((skipTo - start.getTime()) / (periodDays * interval * DAY_MS)) - 1);
+
+  if (rule.freq === 'DAILY') {
+    for (let k = skipped(1), n = 0; n < MAX_PERIODS; k++, n++) {
+      const next = at(start, y, m, d + k * interval);
+      if (wanted.size === 0 || wanted.has(next.getDay())) yield next;
+    }
+  } else if (rule.freq === 'WEEKLY') {
+    // offsets from the Monday of the start's week
+    const monday = d - ((start.getDay() + 6) % 7);
+    const offsets = (wanted.size ? Array.from(wanted) : [start.getDay()]).map((w) => (w + 6) % 7).sort((a, b) => a - b);
+    for (let k = skipped(7), n = 0; n < MAX_PERIODS; k++, n++) {
+      for (const offset of offsets) {
+        const next = at(start, y, m, monday + k * 7 * interval + offset);
+        if (next >= start) yield next;
+      }
+    }
+  } else if (rule.freq === 'MONTHLY') {
+    for (let k = 0; k < MAX_PERIODS; k++) {
+      const year = y + Math.floor((m + k * interval) / 12);
+      const month = (m + k * interval) % 12;
+      // months without the start's day (the 31st, say) are skipped, as in iCalendar
+      const days = rule.byDay?.length ? monthDays(year, month, rule.byDay) : d <= daysInMonth(year, month) ? [d] : [];
+      for (const day of days) {
+        const next = at(start, year, month, day);
+        if (next >= start) yield next;
+      }
+    }
+  } else {
+    for (let k = 0; k < MAX_PERIODS; k++) {
+      const year = y + k * interval;
+      // Feb 29 only happens in leap years
+      if (d <= daysInMonth(year, m)) yield at(start, year, m, d);
+    }
+  }
+}
+
+// Local YYYY-MM-DD
+export function localDay(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Local time without a zone, the way the app stores event times (YYYY-MM-DDTHH:MM:SS)
+export function formatLocalTime(date: Date): string {
+  return `${localDay(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+// `date` written the way `like` is: UTC ISO if `like` carries a zone, else local time without one
+function formatLike(like: string, date: Date): string {
+  return /(Z|[+-]\d{2}:?\d{2})$/i.test(like) ? date.toISOString() : formatLocalTime(date);
+}
+
+const toTime = (v: Date | string) => (typeof v === 'string' ? Date.parse(v) : v.getTime());
+
+/**
+ * The occurrences of `event` starting within [from, to), in order. An event that does not repeat
+ * is its own single occurrence.
+ */
+export function expandEvent<E extends Event>(event: E, from: Date | string, to: Date | string): Occurrence<E>[] {
+  const start = new Date(event.startTime);
+  if (Number.isNaN(start.getTime())) return [];
+  const rangeFrom = toTime(from);
+  const rangeTo = toTime(to);
+  const end = event.endTime ? Date.parse(event.endTime) : NaN;
+  const duration = Number.isNaN(end) ? null : end - start.getTime();
+
+  const rule = ruleOf(event);
+  if (!rule) {
+    const t = start.getTime();
+    return t >= rangeFrom && t < rangeTo ? [{ ...event, recurrenceId: null }] : [];
+  }
+
+  const excluded = new Set((event.exdates ?? []).map((x) => Date.parse(x)));
+  const until = rule.until ? Date.parse(rule.until) : Infinity;
+  const out: Occurrence<E>[] = [];
+  let seen = 0;
+  for (const next of starts(start, rule, rule.count ? null : rangeFrom)) {
+    const t = next.getTime();
+    if (t > until || t >= rangeTo || (rule.count && seen >= rule.count)) break;
+    seen += 1;
+    if (t < rangeFrom || excluded.has(t)) continue;
+    out.push({
+      ...event,
+      startTime: formatLike(event.startTime, next),
+      endTime: duration == null ? event.endTime : formatLike(event.endTime!, new Date(t + duration)),
+      date: event.date == null ? event.date : localDay(next),
+      recurrenceId: next.toISOString(),
+    });
+  }
+  return out;
+}
+
+/**
+ * Every occurrence of `events` starting within [from, to), ordered by start time
+ */
+export function expandEvents<E extends Event>(events: E[], from: Date | string, to: Date | string): Occurrence<E>[] {
+  return events
+    .flatMap((e) => expandEvent(e, from, to))
+    .sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime));
+}
+
+export type SeriesPart = Pick<Event, 'rrule' | 'exdates'>;
+
+/**
+ * Split a repeating event at one of its occurrences (its recurrenceId): the rule and exdates that
+ * keep the occurrences before it (`head`, null if there are none) and those of a series starting at
+ * it that continues the rest (`tail`). The head always ends with an UNTIL; a COUNT carries over to
+ * the tail, less the occurrences the head keeps.
+ */
+export function splitSeries(event: Event, recurrenceId: string): { head: SeriesPart | null; tail: SeriesPart } {
+  const rule = ruleOf(event);
+  const splitAt = Date.parse(recurrenceId);
+  if (!rule || Number.isNaN(splitAt)) return { head: null, tail: { rrule: event.rrule, exdates: event.exdates } };
+
+  // excluded occurrences still use up the count
+  const before = expandEvent({ ...event, exdates: [] }, event.startTime, recurrenceId).length;
+  const exdates = event.exdates ?? [];
+  // RFC 5545 allows UNTIL or COUNT but not both; the UNTIL alone ends the head before the split
+  const until = new Date(Math.min(splitAt - 1000, rule.until ? Date.parse(rule.until) : Infinity)).toISOString();
+  const head: RecurrenceRule = { ...rule, until, count: null };
+  const tail: RecurrenceRule = { ...rule, count: rule.count ? Math.max(1, rule.count - before) : rule.count };
+  return {
+    head: before === 0 ? null : { rrule: formatRule(head), exdates: exdates.filter((x) => Date.parse(x) < splitAt) },
+    tail: { rrule: formatRule(tail), exdates: exdates.filter((x) => Date.parse(x) >= splitAt) },
+  };
+}
+
+export default {
+  parseRule,
+  formatRule,
+  ruleOf,
+  describeRule,
+  expandEvent,
+  expandEvents,
+};
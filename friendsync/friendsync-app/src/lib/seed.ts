@@ -209,6 +209,15 @@ export async function seedDummyData(opts?: { force?: boolean; randomize?: boolea
     console.warn('seed: rsvp creation failed', e);
   }
 
+  // seed rows are local test data; keep sync from pushing them to the backend
+  await db.discardOutbox('events', createdEvents.map(e => e.id));
+  await db.discardOutbox('friends', createdFriends.map(f => f.rowId));
+  await db.discardOutbox('rsvps', createdRsvps.map(r => r.id));
+  await db.discardOutbox('user_prefs', [alice, bob]);
+
+  // write the batched fallback snapshot now rather than on the next save tick
+  await db.flush();
+
   return { users: createdUsers, events: createdEvents, friends: createdFriends, notifications: createdNotifications, rsvps: createdRsvps };
 }
 
@@ -1,4 +1,5 @@
 import storage from './storage';
+import { invalidateCache, resetDatabase } from './db';
 
 export async function dumpAll() {
   const keys = await storage.keys();
@@ -10,6 +11,10 @@ export async function dumpAll() {
 }
 
 export async function clearAll() {
+  // removing the fallback key below does nothing for native SQLite, so empty the tables themselves
+  await resetDatabase();
+  // drop the db's in-memory snapshot first so a pending save cannot write it back
+  await invalidateCache();
   // Be conservative: remove keys we know the app uses plus clear if available
   const known = ['fallback_db_v1', 'navigation_state_v1', 'auth_token'];
   for (const k of known) {
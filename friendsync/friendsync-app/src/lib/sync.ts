@@ -1,204 +1,688 @@
 // this script syncs the backend to the frontend db]
 
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
 import * as db from './db';
+import { ConflictTable, EventUpsert, OutboxEntry, OutboxTable, Repositories, Row, ServerIdTable, TombstoneTable, TOMBSTONE_KEYS, toFlag, User } from './db';
+import api, { ApiEvent, ApiFriend, ApiNotification, ApiRsvp, ApiUser, ApiUserPrefs, Collection, Feed } from './api';
+import { reconcile } from './conflicts';
+import { getApiBaseUrl } from './config';
+import { EndpointError, getSyncStatus, toEndpointError, updateSyncStatus } from './syncStatus';
 
-// backend URL
-const API_URL = process.env.EXPO_PUBLIC_API_URL || 'https://project03-friendsync-backend-8c893d18fe37.herokuapp.com/';
-
-// How often to sync (5 minutes)
+// How often to sync (5 minutes) unless changed with setSyncInterval
 const SYNC_INTERVAL = 5 * 60 * 1000;
 
-let syncTimer: ReturnType<typeof setInterval> | null = null;
-let authToken: string | null = null;
+// While the realtime channel (realtime.ts) delivers changes, polling only runs as a safety net
+const LIVE_SYNC_INTERVAL = 30 * 60 * 1000;
+
+// Retry delay after the first failed sync, doubled with every further failure up to SYNC_INTERVAL
+const RETRY_BASE = 5 * 1000;
+
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+let syncUserId: number | null = null;
+let running: Promise<void> | null = null;
+let syncInterval = SYNC_INTERVAL;
+// no timer runs while the app is in the background
+let backgrounded = false;
+let appStateSubscription: NativeEventSubscription | null = null;
+let live = false;
+// Backend collection for each table that is pushed from the outbox; preferences are addressed by
+// user id through api.userPrefs instead
+const OUTBOX_COLLECTIONS: { [T in ServerIdTable]: Collection<any> } = {
+  events: api.events,
+  rsvps: api.rsvps,
+  friends: api.friends,
+};
+
+const endpointOf = (table: OutboxTable) => (table === 'user_prefs' ? api.userPrefs.path : OUTBOX_COLLECTIONS[table].path);
 
 /**
- * Set the auth token for API requests
+ * Request body for an outbox entry. Local ids inside the payload are swapped for server ids, and
+ * updates carry the version they were based on so the backend can refuse them (409) if the row
+ * has changed there since.
  */
-export function setAuthToken(token: string) {
-  authToken = token;
+async function toServerBody(entry: OutboxEntry): Promise<Row> {
+  const body = await toServerFields(entry);
+  return entry.op === 'update' && entry.base?.version != null ? { ...body, version: entry.base.version } : body;
+}
+
+async function toServerFields(entry: OutboxEntry): Promise<Row> {
+  const p = entry.payload ?? {};
+  if (entry.table === 'events') {
+    if (entry.op === 'create') {
+      return {
+        userId: p.userId,
+        eventTitle: p.eventTitle ?? p.title ?? null,
+        description: p.description ?? null,
+        startTime: p.startTime,
+        endTime: p.endTime ?? null,
+        date: p.date ?? null,
+        isEvent: p.isEvent == null ? true : toFlag(p.isEvent),
+        recurring: p.recurring ?? 0,
+        rrule: p.rrule ?? null,
+        exdates: p.exdates ?? null,
+        uid: p.uid ?? null,
+      };
+    }
+    return p.isEvent == null ? p : { ...p, isEvent: toFlag(p.isEvent) };
+  }
+  if (entry.table === 'rsvps' && entry.op === 'create') {
+    return {
+      eventId: (await db.getServerId('events', p.eventId)) ?? p.eventId,
+      eventOwnerId: p.eventOwnerId,
+      inviteRecipientId: p.inviteRecipientId,
+      status: p.status ?? 'pending',
+    };
+  }
+  return p;
 }
 
+async function pushEntry(entry: OutboxEntry): Promise<void> {
+  // preferences only ever get updated
+  if (entry.table === 'user_prefs') {
+    await api.userPrefs.update(entry.localId, await toServerBody(entry));
+    await db.transaction((tx) => tx.outbox.remove(entry.outboxId));
+    return;
+  }
+  const table = entry.table;
+  const collection = OUTBOX_COLLECTIONS[table];
+  const serverId = await db.getServerId(table, entry.localId);
+
+  if (entry.op === 'create') {
+    // a server id means the create already went through and only the removal from the outbox was lost
+    if (serverId == null) {
+      const created = await collection.create(await toServerBody(entry));
+      const newId = Number(created?.[TOMBSTONE_KEYS[table]] ?? created?.id);
+      await db.transaction(async (tx) => {
+        if (Number.isFinite(newId)) await tx.outbox.setServerId(table, entry.localId, newId);
+        await tx.outbox.remove(entry.outboxId);
+      });
+    } else {
+      await db.transaction((tx) => tx.outbox.remove(entry.outboxId));
+    }
+    return;
+  }
+
+  // the row never reached the backend (its create was rejected), so there is nothing to change there
+  if (serverId != null) {
+    if (entry.op === 'update') await collection.update(serverId, await toServerBody(entry));
+    else await collection.remove(serverId);
+  }
+  await db.transaction(async (tx) => {
+    if (entry.op === 'delete') await tx.tombstones.acknowledge(table, [entry.localId]);
+    await tx.outbox.remove(entry.outboxId);
+  });
+}
+
+const isConflictTable = (table: OutboxTable): table is ConflictTable => table !== 'friends';
+
 /**
- * Make an authenticated request to the backend
- * takes in the endpoint string such as 'rsvps' or 'friends'
+ * The backend refused an update because the row changed there first. Settle the conflict against
+ * its current copy of the row, sent back as `{ current }` or fetched.
  */
-async function fetchFromBackend(endpoint: string | number): Promise<any> {
-  const response = await fetch(`${API_URL}${endpoint}`, {
-    headers: {
-      'Authorization': `Bearer ${authToken}`,
-      'Content-Type': 'application/json',
-    },
+async function settleRejected(entry: OutboxEntry & { table: ConflictTable }, body: any) {
+  let current = body?.current;
+  if (!current || typeof current !== 'object') {
+    if (entry.table === 'user_prefs') {
+      current = await api.userPrefs.get(entry.localId);
+    } else {
+      const serverId = await db.getServerId(entry.table, entry.localId);
+      if (serverId == null) throw new Error(`${entry.table} #${entry.localId} has no server id`);
+      current = await OUTBOX_COLLECTIONS[entry.table].get(serverId);
+    }
+  }
+  await db.transaction(async (tx) => {
+    const outbox = await tx.outbox.list();
+    if (entry.table === 'events') await storeEvent(tx, current, outbox);
+    else if (entry.table === 'rsvps') await storeRsvp(tx, current, outbox);
+    else await storePreferences(tx, entry.localId, current, outbox);
   });
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch ${endpoint}: ${response.status}`);
+/**
+ * Replay local changes from the outbox against the backend, oldest first. An entry is removed only
+ * after the backend accepted it. Stops at the first entry that may succeed later (network error,
+ * 5xx, 401) so nothing is sent out of order; entries the backend rejects outright are dropped.
+ * An update refused as a conflict (409) is settled and re-queued, once per row and run.
+ * Resolves to the failure that stopped the push, or null once the outbox is empty.
+ */
+export async function pushOutbox(): Promise<EndpointError | null> {
+  const settled = new Set<string>();
+  // every pass removes the head of the outbox or stops, and settling a conflict rewrites the
+  // outbox, so read the head again each time
+  for (;;) {
+    const [entry] = await db.getOutbox();
+    if (!entry) return null;
+    try {
+      await pushEntry(entry);
+    } catch (error: any) {
+      const status = error?.status;
+      const key = `${entry.table}:${entry.localId}`;
+      if (status === 409 && entry.op === 'update' && isConflictTable(entry.table)) {
+        // refused again after settling: leave it for the next sync
+        if (!settled.has(key)) {
+          settled.add(key);
+          try {
+            await settleRejected({ ...entry, table: entry.table }, error.body);
+            continue;
+          } catch (settleError) {
+            console.warn(`Could not settle conflict on ${entry.table} #${entry.localId}:`, settleError);
+          }
+        }
+      } else if (typeof status === 'number' && status >= 400 && status < 500 && ![401, 408, 429].includes(status)) {
+        console.warn(`Push of ${entry.table} ${entry.op} #${entry.localId} rejected (${status}), dropping it`);
+        await db.transaction((tx) => tx.outbox.remove(entry.outboxId));
+        continue;
+      }
+      await db.transaction((tx) => tx.outbox.fail(entry.outboxId, String(error?.message ?? error)));
+      console.warn(`Push stopped at ${entry.table} ${entry.op} #${entry.localId}:`, error);
+      return toEndpointError(endpointOf(entry.table), error);
+    }
   }
+}
 
-  return response.json();
+// One pull of a feed: rows changed since the cursor and server ids deleted since then
+type Delta<T> = { changed: T[]; deleted: number[]; cursor: string | null; complete: boolean };
+
+/**
+ * Fetch a feed incrementally. A backend with delta support answers `?since=` with
+ * `{ changed, deleted, cursor }`; a plain array is taken as the complete current list.
+ * Resolves to null if the request failed (recorded in `errors`), in which case the feed is left
+ * untouched locally.
+ */
+async function fetchDelta<T>(
+  endpoint: string,
+  fetchFeed: (since: string | null) => Promise<Feed<T>>,
+  since: string | null,
+  errors: EndpointError[],
+): Promise<Delta<T> | null> {
+  try {
+    const body = await fetchFeed(since);
+    if (Array.isArray(body)) return { changed: body, deleted: [], cursor: null, complete: true };
+    return {
+      changed: Array.isArray(body?.changed) ? body.changed : [],
+      deleted: Array.isArray(body?.deleted) ? body.deleted.map(Number) : [],
+      cursor: body?.cursor ?? null,
+      complete: since == null,
+    };
+  } catch (error) {
+    errors.push(toEndpointError(endpoint, error));
+    return null;
+  }
+}
+
+// Backend rows name their id after the table (eventId, rsvpId, ...) or just `id`
+function remoteId(row: any, key: string): number | null {
+  const id = Number(row?.[key] ?? row?.id);
+  return Number.isFinite(id) ? id : null;
+}
+
+/**
+ * A user row from the backend as a local User, keeping the backend's id
+ */
+export function toUser(row: ApiUser): User | null {
+  const userId = remoteId(row, 'userId');
+  return userId == null ? null : { userId, username: String(row.username ?? ''), email: row.email ?? null };
+}
+
+// Version the backend reports for a row, if it keeps them
+const versionOf = (row: any): number | null => (row?.version == null ? null : Number(row.version));
+
+// The stores below write one row from the backend, reconciled with local updates still in `outbox`
+
+async function storeEvent(tx: Repositories, event: ApiEvent, outbox: OutboxEntry[]) {
+  const serverId = remoteId(event, 'eventId');
+  if (serverId == null) return;
+  const row: EventUpsert = {
+    serverId,
+    userId: event.userId,
+    eventTitle: event.eventTitle || event.title || undefined,
+    description: event.description ?? undefined,
+    startTime: event.startTime,
+    endTime: event.endTime ?? undefined,
+    date: event.date ?? undefined,
+    isEvent: event.isEvent ?? 1,
+    recurring: event.recurring ?? 0,
+    rrule: event.rrule ?? null,
+    exdates: event.exdates ?? null,
+    uid: event.uid ?? null,
+    updatedAt: event.updatedAt,
+    version: versionOf(event),
+  };
+  const localId = await tx.outbox.localIdOf('events', serverId);
+  const store = () => tx.events.upsert(row);
+  if (localId == null) await store();
+  else await reconcile(tx, 'events', localId, { version: row.version ?? null, values: row }, store, outbox);
+}
+
+// rsvps point at the local copy of their event. Until that is stored the rsvp is left out and
+// resolves to false, so its feed is pulled again from the same cursor.
+async function storeRsvp(tx: Repositories, rsvp: ApiRsvp, outbox: OutboxEntry[]): Promise<boolean> {
+  const serverId = remoteId(rsvp, 'rsvpId');
+  const eventId = await tx.outbox.localIdOf('events', Number(rsvp.eventId));
+  if (eventId == null) return false;
+  const row = {
+    serverId,
+    eventId,
+    eventOwnerId: rsvp.eventOwnerId,
+    inviteRecipientId: rsvp.inviteRecipientId,
+    status: rsvp.status,
+    version: versionOf(rsvp),
+  };
+  const localId = serverId == null ? null : await tx.outbox.localIdOf('rsvps', serverId);
+  const store = () => tx.rsvps.upsert(row);
+  if (localId == null) await store();
+  else await reconcile(tx, 'rsvps', localId, { version: row.version, values: row }, store, outbox);
+  return true;
+}
+
+async function storePreferences(tx: Repositories, userId: number, prefs: ApiUserPrefs, outbox: OutboxEntry[]) {
+  const values = { theme: prefs.theme, notificationEnabled: prefs.notificationEnabled, colorScheme: prefs.colorScheme };
+  const version = versionOf(prefs);
+  await reconcile(tx, 'user_prefs', userId, { version, values }, () => tx.userPrefs.set(userId, values, version), outbox);
+}
+
+async function storeNotification(tx: Repositories, notif: ApiNotification) {
+  const serverId = remoteId(notif, 'notificationId');
+  if (serverId == null) return;
+  await tx.notifications.upsert({
+    serverId,
+    userId: notif.userId,
+    notifMsg: notif.notifMsg,
+    notifType: notif.notifType,
+    timestamp: notif.createdAt,
+  });
 }
 
 /**
- * Sync all data from backend to local database
+ * After a complete list, delete the local rows the backend no longer has. Rows without a server id
+ * are kept while their create is still waiting in the outbox.
  */
-export async function syncFromBackend(userId: number): Promise<void> {
+async function removeMissing(tx: Repositories, table: TombstoneTable, rows: { id: number; serverId: number | null }[], seen: Set<number>) {
+  const unpushed = new Set((await tx.outbox.list()).filter((o) => o.table === table).map((o) => o.localId));
+  const gone = rows.filter((r) => (r.serverId == null ? !unpushed.has(r.id) : !seen.has(r.serverId)));
+  await tx.tombstones.markDeleted(table, gone.map((r) => r.id));
+}
+
+// The user's feeds: own events, other users' events shared with them, friends, rsvps, notifications
+export type FeedName = 'events' | 'shared' | 'friends' | 'rsvps' | 'notifications';
+
+// cursors are kept per feed and user so switching accounts starts from scratch
+const cursorKey = (feed: FeedName, userId: number) => `${feed}:user:${userId}`;
+
+type LocalRef = { id: number; serverId: number | null };
+
+// How each feed's rows are identified and stored, and which local rows a complete list covers
+const FEEDS: {
+  [F in FeedName]: {
+    table: TombstoneTable;
+    key: string;
+    // false when the row has to wait for another one, e.g. an rsvp for its event
+    store(tx: Repositories, userId: number, row: any, outbox: OutboxEntry[]): Promise<unknown>;
+    local(tx: Repositories, userId: number): Promise<LocalRef[]>;
+  };
+} = {
+  events: {
+    table: 'events',
+    key: 'eventId',
+    store: (tx, _userId, event, outbox) => storeEvent(tx, event, outbox),
+    local: async (tx, userId) => (await tx.events.getForUser(userId)).map((e) => ({ id: e.eventId, serverId: e.serverId })),
+  },
+  shared: {
+    table: 'events',
+    key: 'eventId',
+    store: (tx, _userId, event, outbox) => storeEvent(tx, event, outbox),
+    local: async (tx, userId) => (await tx.events.getSharedWith(userId)).map((e) => ({ id: e.eventId, serverId: e.serverId })),
+  },
+  // one row per pair
+  friends: {
+    table: 'friends',
+    key: 'friendRowId',
+    store: (tx, userId, friend: ApiFriend) => tx.friends.upsert(friend.userId ?? userId, friend.friendId, friend.status, remoteId(friend, 'friendRowId')),
+    local: async (tx, userId) =>
+      [...await tx.friends.getAcceptedFor(userId), ...await tx.friends.getPendingFor(userId)].map((f) => ({ id: f.friendRowId, serverId: f.serverId })),
+  },
+  // the user's invitations and the answers to the user's own events
+  rsvps: {
+    table: 'rsvps',
+    key: 'rsvpId',
+    store: (tx, _userId, rsvp, outbox) => storeRsvp(tx, rsvp, outbox),
+    local: async (tx, userId) => {
+      const answers = await Promise.all((await tx.events.getForUser(userId)).map((e) => tx.rsvps.getForEvent(e.eventId)));
+      return [...await tx.rsvps.getForRecipient(userId), ...answers.flat()].map((r) => ({ id: r.rsvpId, serverId: r.serverId }));
+    },
+  },
+  notifications: {
+    table: 'notifications',
+    key: 'notificationId',
+    store: (tx, _userId, notif) => storeNotification(tx, notif),
+    local: async (tx, userId) => (await tx.notifications.getForUser(userId)).map((n) => ({ id: n.notificationId, serverId: n.serverId })),
+  },
+};
+
+/**
+ * Store one pull of a feed. Deletes reported by the backend (and rows missing from a complete list)
+ * are tombstoned as already acknowledged, so the purge at the end removes them.
+ */
+async function storeFeed(tx: Repositories, userId: number, feed: FeedName, delta: Delta<any>, outbox: OutboxEntry[]) {
+  const { table, key, store, local } = FEEDS[feed];
+  const seen = new Set<number>();
+  let deferred = false;
+  for (const row of delta.changed) {
+    const serverId = remoteId(row, key);
+    if (serverId != null) seen.add(serverId);
+    if ((await store(tx, userId, row, outbox)) === false) deferred = true;
+  }
+  await tx.tombstones.markDeletedByServerIds(table, delta.deleted);
+  if (delta.complete) await removeMissing(tx, table, await local(tx, userId), seen);
+  // keep the old cursor so deferred rows come again
+  if (delta.cursor && !deferred) await tx.cursors.set(cursorKey(feed, userId), delta.cursor);
+}
+
+// The people behind other users' events that are not in the local db yet, for their names
+async function fetchOwners(userId: number, events: ApiEvent[], failed: (endpoint: string) => (error: unknown) => null): Promise<(ApiUser | null)[]> {
+  const ownerIds = new Set(events.map((e) => Number(e.userId)).filter((id) => id !== userId));
+  return Promise.all(
+    Array.from(ownerIds).map(async (id) => ((await db.getUserById(id)) ? null : api.users.get(id).catch(failed(`/users/${id}`)))),
+  );
+}
+
+async function storeOwners(tx: Repositories, owners: (ApiUser | null)[]) {
+  for (const owner of owners) {
+    const u = owner && toUser(owner);
+    if (u) await tx.users.upsert(u);
+  }
+}
+
+/**
+ * Push pending local changes, then pull what changed on the backend since the last sync into the
+ * local database. Rows are merged by server id, so local ids stay stable across syncs.
+ * Resolves to the endpoints that failed; their tables are left as they were.
+ */
+export async function syncFromBackend(userId: number): Promise<EndpointError[]> {
   console.log('Starting sync...');
+  const errors: EndpointError[] = [];
+  const failed = (endpoint: string) => (error: unknown) => {
+    errors.push(toEndpointError(endpoint, error));
+    return null;
+  };
 
   try {
+    const pushError = await pushOutbox();
+    if (pushError) errors.push(pushError);
+
 
     //convert userId to string for api calls
     const userIdParam = String(userId);
 
-    // Fetch all data from backend
+    const pull = async <T>(feed: FeedName, fetchFeed: (userId: number, since?: string | null) => Promise<Feed<T>>) =>
+      fetchDelta(`/${feed}/user/${userIdParam}`, (since) => fetchFeed(userId, since), await db.getSyncCursor(cursorKey(feed, userId)), errors);
+
+    // Fetch changes from backend
     const [users, events, friends, rsvps, notifications, preferences] = await Promise.all([
-      fetchFromBackend(`/users/${userIdParam}`).catch(() => null),
-      fetchFromBackend(`/events/user/${userIdParam}`).catch(() => []),
-      fetchFromBackend(`/friends/user/${userIdParam}`).catch(() => []),
-      fetchFromBackend(`/rsvps/user/${userIdParam}`).catch(() => []),
-      fetchFromBackend(`/notifications/user/${userIdParam}`).catch(() => []),
-      fetchFromBackend(`/preferences/${userIdParam}`).catch(() => null),
+      api.users.get(userId).catch(failed(`/users/${userIdParam}`)),
+      pull('events', api.events.forUser),
+      pull('friends', api.friends.forUser),
+      pull('rsvps', api.rsvps.forUser),
+      pull('notifications', api.notifications.forUser),
+      api.userPrefs.get(userId).catch(failed(`${api.userPrefs.path}/${userIdParam}`)),
     ]);
 
-    // Store users
-    if (users) {
-      const existing = await db.getUserById(users.userId);
-      if (existing) {
-        await db.updateUser(users.userId, users);
-      } else {
-        await db.createUser(users);
-      }
-    }
+    // Friends' shared free time and the events the user is invited to. A new friend or invitation
+    // can reveal rows older than the cursor, which a delta leaves out, so then take the full list.
+    const sharingChanged = [friends, rsvps].some((d) => d != null && (d.changed.length > 0 || d.deleted.length > 0));
+    const shared = await fetchDelta(
+      `/events/shared/user/${userIdParam}`,
+      (since) => api.events.sharedWith(userId, since),
+      sharingChanged ? null : await db.getSyncCursor(cursorKey('shared', userId)),
+      errors,
+    );
+    const owners = await fetchOwners(userId, shared?.changed ?? [], failed);
 
-    // Store events - clear and re-add all
-    const existingEvents = await db.getEventsForUser(userId);
-    for (const event of existingEvents) {
-      await db.deleteEvent(event.eventId);
-    }
-    for (const event of events) {
-      await db.createEvent({
-        userId: event.userId,
-        eventTitle: event.eventTitle || event.title,
-        description: event.description,
-        startTime: event.startTime,
-        endTime: event.endTime,
-        date: event.date,
-        isEvent: event.isEvent ?? 1,
-        recurring: event.recurring ?? 0,
-      });
-    }
+    // Store everything in one transaction so a failure part-way leaves the previous data intact
+    await db.transaction(async (tx) => {
+      // local updates still waiting to be pushed; rows they touch are reconciled, not overwritten
+      const outbox = await tx.outbox.list();
 
-    // Store friends
-    for (const friend of friends) {
-      // Check if friendship already exists
-      const existingFriends = await db.getFriendsForUser(userId);
-      const exists = existingFriends.find((f: any) => f.friendId === friend.friendId);
-      
-      if (!exists) {
-        await db.sendFriendRequest(userId, friend.friendId);
-        if (friend.status === 'accepted') {
-          // Accept the request (you'll need the friendRowId)
-          const requests = await db.getFriendRequestsForUser(userId);
-          const request = requests.find((r: any) => r.friendId === friend.friendId);
-          if (request) {
-            await db.respondFriendRequest(request.friendRowId, true);
-          }
-        }
-      }
-    }
+      // Store users under the backend's id so the ids in every other row line up
+      const user = users && toUser(users);
+      if (user) await tx.users.upsert(user);
+      await storeOwners(tx, owners);
 
-    // Store RSVPs
-    for (const rsvp of rsvps) {
-      const existingRsvps = await db.getRsvpsForUser(userId);
-      const exists = existingRsvps.find((r: any) => 
-        r.eventId === rsvp.eventId && r.inviteRecipientId === rsvp.inviteRecipientId
-      );
-      
-      if (!exists) {
-        await db.createRsvp({
-          eventId: rsvp.eventId,
-          eventOwnerId: rsvp.eventOwnerId,
-          inviteRecipientId: rsvp.inviteRecipientId,
-          status: rsvp.status,
-        });
-      } else {
-        await db.updateRsvp(exists.rsvpId, { status: rsvp.status });
+      // Shared events go before the rsvps that point at them
+      const pulled: [FeedName, Delta<any> | null][] = [
+        ['events', events],
+        ['shared', shared],
+        ['friends', friends],
+        ['rsvps', rsvps],
+        ['notifications', notifications],
+      ];
+      for (const [feed, delta] of pulled) {
+        if (delta) await storeFeed(tx, userId, feed, delta, outbox);
       }
-    }
 
-    // Store notifications - clear old ones and add new
-    await db.clearNotificationsForUser(userId);
-    for (const notif of notifications) {
-      await db.addNotification({
-        userId: notif.userId,
-        notifMsg: notif.notifMsg,
-        notifType: notif.notifType,
-        timestamp: notif.createdAt,
-      });
-    }
+      // Store preferences
+      if (preferences) await storePreferences(tx, userId, preferences, outbox);
 
-    // Store preferences
-    if (preferences) {
-      await db.setUserPreferences(userId, {
-        theme: preferences.theme,
-        notificationEnabled: preferences.notificationEnabled,
-        colorScheme: preferences.colorScheme,
-      });
-    }
+      // Drop tombstones the backend has now seen
+      await tx.tombstones.purge();
+    });
 
-    console.log('Sync completed successfully');
+    if (errors.length > 0) console.warn('Sync completed with errors:', errors);
+    else console.log('Sync completed successfully');
+    return errors;
   } catch (error) {
     console.error('Sync failed:', error);
     throw error;
   }
 }
 
+// Browsers report a lost network; elsewhere a failed request is the only sign
+function deviceOffline(): boolean {
+  return typeof navigator !== 'undefined' && 'onLine' in navigator && navigator.onLine === false;
+}
+
+// Exponential backoff with some jitter, so clients that failed together do not retry in lockstep
+function retryDelay(failures: number): number {
+  const delay = Math.min(syncInterval, RETRY_BASE * 2 ** (failures - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+// Time between regular syncs
+const pollInterval = () => (live ? Math.max(syncInterval, LIVE_SYNC_INTERVAL) : syncInterval);
+
+// The next run is left to the return to the foreground while the app is in the background
+function schedule(delay: number) {
+  if (syncTimer) clearTimeout(syncTimer);
+  syncTimer = null;
+  if (backgrounded) {
+    updateSyncStatus({ nextSyncAt: null });
+    return;
+  }
+  syncTimer = setTimeout(() => {
+    syncTimer = null;
+    runSync();
+  }, delay);
+  updateSyncStatus({ nextSyncAt: new Date(Date.now() + delay).toISOString() });
+}
+
 /**
- * Start automatic sync every 5 minutes
+ * Sync the auto-sync user once and move to the next state: idle and the regular interval after a
+ * clean run, otherwise offline (nothing answered) or error, retried with backoff. Calls made while
+ * a run is in progress share it.
  */
-export function startAutoSync(userId: string | number) {
-  if (syncTimer) {
+function runSync(): Promise<void> {
+  if (running) return running;
+  const userId = syncUserId;
+  if (userId == null) return Promise.resolve();
+
+  running = (async () => {
+    const attemptAt = new Date().toISOString();
+    let errors: EndpointError[];
+    let threw = false;
+    if (deviceOffline()) {
+      errors = [{ endpoint: getApiBaseUrl(), status: null, message: 'Device is offline' }];
+    } else {
+      updateSyncStatus({ state: 'syncing', lastAttemptAt: attemptAt, nextSyncAt: null });
+      try {
+        errors = await syncFromBackend(userId);
+      } catch (error) {
+        threw = true;
+        errors = [toEndpointError('sync', error)];
+      }
+    }
+    // stopped (or restarted for someone else) while this run was in flight
+    if (syncUserId !== userId) return;
+
+    if (errors.length === 0) {
+      updateSyncStatus({ state: 'idle', lastSyncedAt: new Date().toISOString(), lastAttemptAt: attemptAt, errors: [], failures: 0 });
+      schedule(pollInterval());
+      return;
+    }
+    const failures = getSyncStatus().failures + 1;
+    const offline = !threw && errors.every((e) => e.status === null);
+    updateSyncStatus({ state: offline ? 'offline' : 'error', lastAttemptAt: attemptAt, errors, failures });
+    schedule(retryDelay(failures));
+  })().finally(() => {
+    running = null;
+  });
+  return running;
+}
+
+// Sync as soon as the browser is back online instead of waiting out the backoff. Native builds get
+// no such event (that needs @react-native-community/netinfo); there the backoff retries stand in.
+function onOnline() {
+  if (!backgrounded) runSync();
+}
+
+// Pause in the background and sync right away when the app comes back to the foreground
+function onAppStateChange(next: AppStateStatus) {
+  if (next === 'background') {
+    backgrounded = true;
+    schedule(0);
+  } else if (next === 'active' && backgrounded) {
+    backgrounded = false;
+    runSync();
+  }
+}
+
+/**
+ * Start automatic sync: now, then every sync interval, with quicker retries while it fails,
+ * paused while the app is in the background. Progress is published through syncStatus.ts.
+ */
+export function startAutoSync(userId: number) {
+  if (syncUserId === userId) {
     console.log('Auto-sync already running');
     return;
   }
-  //added conversion to number
-  // const userIdNum = Number(userId);
+  // a different account signed in
+  if (syncUserId != null) stopAutoSync();
 
   console.log('Starting auto-sync...');
-  
-  // Do initial sync
-  syncFromBackend(userId).catch(console.error);
+  syncUserId = userId;
+  backgrounded = AppState.currentState === 'background';
+  appStateSubscription = AppState.addEventListener('change', onAppStateChange);
+  if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+    window.addEventListener('online', onOnline);
+  }
+  runSync();
+}
 
-  // Then repeat every 5 minutes
-  syncTimer = setInterval(() => {
-    syncFromBackend(userId).catch(console.error);
-  }, SYNC_INTERVAL);
+/**
+ * Sync right away instead of waiting for the timer, e.g. for pull-to-refresh. Resolves once the
+ * run has finished; does nothing unless auto-sync has been started.
+ */
+export function syncNow(): Promise<void> {
+  return runSync();
 }
 
 /**
  * Stop automatic sync
  */
 export function stopAutoSync() {
+  if (syncUserId == null) return;
+  syncUserId = null;
   if (syncTimer) {
-    clearInterval(syncTimer);
+    clearTimeout(syncTimer);
     syncTimer = null;
-    console.log('Auto-sync stopped');
   }
+  appStateSubscription?.remove();
+  appStateSubscription = null;
+  if (typeof window !== 'undefined' && typeof window.removeEventListener === 'function') {
+    window.removeEventListener('online', onOnline);
+  }
+  updateSyncStatus({ state: 'idle', nextSyncAt: null });
+  console.log('Auto-sync stopped');
 }
 
 /**
- * Change sync interval (in milliseconds)
+ * Change sync interval (in milliseconds, at least RETRY_BASE). A wait for the next regular sync is
+ * rescheduled from the last sync; retries after failures keep their backoff, capped by the new interval.
  */
 export function setSyncInterval(intervalMs: number) {
-  if (syncTimer) {
-    stopAutoSync();
-    // Restart with new interval would need to be done manually
-    console.log(`Sync interval updated to ${intervalMs / 1000}s. Restart auto-sync to apply.`);
-  }
+  syncInterval = Math.max(RETRY_BASE, intervalMs);
+  reschedule();
+  console.log(`Sync interval set to ${syncInterval / 1000}s`);
+}
+
+// Move a wait for the next regular sync to the current poll interval, counted from the last sync
+function reschedule() {
+  const status = getSyncStatus();
+  if (!syncTimer || status.state !== 'idle') return;
+  const interval = pollInterval();
+  const since = status.lastSyncedAt ? Date.now() - Date.parse(status.lastSyncedAt) : interval;
+  schedule(Math.max(0, interval - since));
+}
+
+export function getSyncInterval(): number {
+  return syncInterval;
+}
+
+/**
+ * Tell the scheduler whether the realtime channel is connected: polling slows to LIVE_SYNC_INTERVAL
+ * while it is, and returns to the sync interval when it drops.
+ */
+export function setLiveUpdates(connected: boolean) {
+  if (live === connected) return;
+  live = connected;
+  updateSyncStatus({ live });
+  reschedule();
+}
+
+// Pushed changes are stored one after another
+let applying: Promise<void> = Promise.resolve();
+
+/**
+ * Store a change pushed over the realtime channel: changed rows and deleted ids of one of the
+ * user's feeds, like a delta without a cursor. Waits for a running sync, so a create it is pushing
+ * has its server id before the backend's copy of it is stored. A new friend or invitation can
+ * reveal shared rows the push does not carry, so those changes are followed by a sync.
+ */
+export function applyPushedChanges(userId: number, feed: FeedName, changed: any[], deleted: number[]): Promise<void> {
+  const apply = async () => {
+    if (userId !== syncUserId) return;
+    await running;
+    const owners = feed === 'shared' ? await fetchOwners(userId, changed, () => () => null) : [];
+    await db.transaction(async (tx) => {
+      const outbox = await tx.outbox.list();
+      await storeOwners(tx, owners);
+      await storeFeed(tx, userId, feed, { changed, deleted, cursor: null, complete: false }, outbox);
+      await tx.tombstones.purge();
+    });
+    if (feed === 'friends' || feed === 'rsvps') runSync();
+  };
+  const next = applying.then(apply);
+  applying = next.catch(() => undefined);
+  return next;
 }
 
 export default {
-  setAuthToken,
+  pushOutbox,
   syncFromBackend,
   startAutoSync,
+  syncNow,
   stopAutoSync,
   setSyncInterval,
+  getSyncInterval,
+  setLiveUpdates,
+  applyPushedChanges,
 };
\ No newline at end of file
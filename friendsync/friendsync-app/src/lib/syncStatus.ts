@@ -0,0 +1,89 @@
+/*
+  syncStatus.ts — Observable state of the sync engine in sync.ts
+
+  - idle:    the last sync finished without errors (or none has run yet)
+  - syncing: a sync is in progress
+  - offline: the device or the backend could not be reached; retried with backoff
+  - error:   the backend answered with errors for some endpoints; retried with backoff
+
+  `errors` lists what failed in the last attempt, per endpoint, so a failed fetch is never mistaken
+  for "no data". Screens read all of it through `useSyncStatus()`.
+*/
+
+import { useSyncExternalStore } from 'react';
+import { ApiError } from './api';
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export type EndpointError = {
+  endpoint: string;
+  // HTTP status, or null when the request never got an answer
+  status: number | null;
+  message: string;
+};
+
+export type SyncStatus = {
+  state: SyncState;
+  // end of the last sync that completed without errors
+  lastSyncedAt: string | null;
+  lastAttemptAt: string | null;
+  errors: EndpointError[];
+  // failed attempts in a row; drives the backoff
+  failures: number;
+  // when the next automatic sync is due, if one is scheduled
+  nextSyncAt: string | null;
+  // the realtime channel (realtime.ts) is connected; polling then only runs as a safety net
+  live: boolean;
+};
+
+const INITIAL: SyncStatus = {
+  state: 'idle',
+  lastSyncedAt: null,
+  lastAttemptAt: null,
+  errors: [],
+  failures: 0,
+  nextSyncAt: null,
+  live: false,
+};
+
+let status: SyncStatus = INITIAL;
+const listeners = new Set<() => void>();
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+export function updateSyncStatus(patch: Partial<SyncStatus>) {
+  status = { ...status, ...patch };
+  listeners.forEach((l) => {
+    try {
+      l();
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.warn('sync: status listener failed', e);
+    }
+  });
+}
+
+export function resetSyncStatus() {
+  updateSyncStatus(INITIAL);
+}
+
+export function subscribeSyncStatus(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** The current SyncStatus, re-rendering whenever it changes. */
+export function useSyncStatus(): SyncStatus {
+  return useSyncExternalStore(subscribeSyncStatus, getSyncStatus, getSyncStatus);
+}
+
+// Requests that never got an HTTP answer (fetch rejects with a TypeError) get status null
+export function toEndpointError(endpoint: string, error: unknown): EndpointError {
+  return {
+    endpoint,
+    status: error instanceof ApiError ? error.status : null,
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
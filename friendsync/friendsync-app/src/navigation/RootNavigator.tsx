@@ -10,6 +10,7 @@ import SettingsScreen from '../screens/SettingsScreen';
 import NotificationsScreen from '../screens/NotificationsScreen';
 import WelcomeScreen from '../screens/WelcomeScreen';
 import ApiTestScreen from '../screens/ApiTestScreen';
+import ConflictsScreen from '../screens/ConflictsScreen';
 
 // auth hook
 import { useAuth } from '../features/auth/AuthProvider';
@@ -77,6 +78,11 @@ export default function RootNavigator() {
             component={NotificationsScreen}
             options={{ title: 'Notifications' }}
           />
+          <Stack.Screen
+            name="Conflicts"
+            component={ConflictsScreen}
+            options={{ title: 'Sync Conflicts' }}
+          />
           <Stack.Screen 
             name="ApiTest" 
             component={ApiTestScreen}
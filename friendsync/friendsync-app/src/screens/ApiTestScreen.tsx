@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, ScrollView, StyleSheet, ActivityIndicator, TextInput } from 'react-native';
-
-const API_BASE_URL = 'https://project03-friendsync-backend-8c893d18fe37.herokuapp.com';
+import api from '../lib/api';
+import { useEnvironment } from '../lib/config';
 
 interface ApiResponse {
   data: any;
@@ -10,6 +10,8 @@ interface ApiResponse {
 }
 
 export default function ApiTestScreen() {
+  const environment = useEnvironment();
+
   // State for test user IDs
   const [testUserId, setTestUserId] = useState('');
   const [testEventId, setTestEventId] = useState('');
@@ -27,13 +29,12 @@ export default function ApiTestScreen() {
   const testGetAllUsers = async () => {
     setUsersResponse({ data: null, error: null, loading: true });
     try {
-      const response = await fetch(`${API_BASE_URL}/api/users`);
-      const data = await response.json();
+      const data = await api.users.list();
       setUsersResponse({ data, error: null, loading: false });
       
       // this will auto-populate testUserId with first user if available
       if (Array.isArray(data) && data.length > 0 && data[0].id) {
-        setTestUserId(data[0].id);
+        setTestUserId(String(data[0].id));
       }
     } catch (error) {
       setUsersResponse({ data: null, error: (error as Error).message, loading: false });
@@ -43,15 +44,10 @@ export default function ApiTestScreen() {
   const testLogin = async () => {
     setLoginResponse({ data: null, error: null, loading: true });
     try {
-      const response = await fetch(`${API_BASE_URL}/api/users/login`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          username: 'testuser',
-          password: 'testpass'
-        })
+      const data = await api.users.login({
+        username: 'testuser',
+        password: 'testpass'
       });
-      const data = await response.json();
       setLoginResponse({ data, error: null, loading: false });
     } catch (error) {
       setLoginResponse({ data: null, error: (error as Error).message, loading: false });
@@ -67,8 +63,7 @@ export default function ApiTestScreen() {
     }
     setFriendsResponse({ data: null, error: null, loading: true });
     try {
-      const response = await fetch(`${API_BASE_URL}/api/friends/user/${testUserId}`);
-      const data = await response.json();
+      const data = await api.friends.forUser(Number(testUserId));
       setFriendsResponse({ data, error: null, loading: false });
     } catch (error) {
       setFriendsResponse({ data: null, error: (error as Error).message, loading: false });
@@ -82,8 +77,7 @@ export default function ApiTestScreen() {
     }
     setFriendsResponse({ data: null, error: null, loading: true });
     try {
-      const response = await fetch(`${API_BASE_URL}/api/friends/pending/${testUserId}`);
-      const data = await response.json();
+      const data = await api.friends.pending(Number(testUserId));
       setFriendsResponse({ data, error: null, loading: false });
     } catch (error) {
       setFriendsResponse({ data: null, error: (error as Error).message, loading: false });
@@ -99,13 +93,12 @@ export default function ApiTestScreen() {
     }
     setEventsResponse({ data: null, error: null, loading: true });
     try {
-      const response = await fetch(`${API_BASE_URL}/api/events/user/${testUserId}`);
-      const data = await response.json();
+      const data = await api.events.forUser(Number(testUserId));
       setEventsResponse({ data, error: null, loading: false });
       
       // Auto-populate testEventId with first event if available
       if (Array.isArray(data) && data.length > 0 && data[0].eventId) {
-        setTestEventId(data[0].eventId);
+        setTestEventId(String(data[0].eventId));
       }
     } catch (error) {
       setEventsResponse({ data: null, error: (error as Error).message, loading: false });
@@ -115,8 +108,7 @@ export default function ApiTestScreen() {
   const testGetAllEvents = async () => {
     setEventsResponse({ data: null, error: null, loading: true });
     try {
-      const response = await fetch(`${API_BASE_URL}/api/events`);
-      const data = await response.json();
+      const data = await api.events.list();
       setEventsResponse({ data, error: null, loading: false });
     } catch (error) {
       setEventsResponse({ data: null, error: (error as Error).message, loading: false });
@@ -127,8 +119,7 @@ export default function ApiTestScreen() {
     setEventsResponse({ data: null, error: null, loading: true });
     try {
       // true = actual events, false = free time blocks
-      const response = await fetch(`${API_BASE_URL}/api/events/type/true`);
-      const data = await response.json();
+      const data = await api.events.byType(true);
       setEventsResponse({ data, error: null, loading: false });
     } catch (error) {
       setEventsResponse({ data: null, error: (error as Error).message, loading: false });
@@ -144,8 +135,7 @@ export default function ApiTestScreen() {
     }
     setRsvpsResponse({ data: null, error: null, loading: true });
     try {
-      const response = await fetch(`${API_BASE_URL}/api/rsvps/user/${testUserId}`);
-      const data = await response.json();
+      const data = await api.rsvps.forUser(Number(testUserId));
       setRsvpsResponse({ data, error: null, loading: false });
     } catch (error) {
       setRsvpsResponse({ data: null, error: (error as Error).message, loading: false });
@@ -159,8 +149,7 @@ export default function ApiTestScreen() {
     }
     setRsvpsResponse({ data: null, error: null, loading: true });
     try {
-      const response = await fetch(`${API_BASE_URL}/api/rsvps/user/${testUserId}/pending`);
-      const data = await response.json();
+      const data = await api.rsvps.pending(Number(testUserId));
       setRsvpsResponse({ data, error: null, loading: false });
     } catch (error) {
       setRsvpsResponse({ data: null, error: (error as Error).message, loading: false });
@@ -174,8 +163,7 @@ export default function ApiTestScreen() {
     }
     setRsvpsResponse({ data: null, error: null, loading: true });
     try {
-      const response = await fetch(`${API_BASE_URL}/api/rsvps/event/${testEventId}/summary`);
-      const data = await response.json();
+      const data = await api.rsvps.summary(Number(testEventId));
       setRsvpsResponse({ data, error: null, loading: false });
     } catch (error) {
       setRsvpsResponse({ data: null, error: (error as Error).message, loading: false });
@@ -191,8 +179,7 @@ export default function ApiTestScreen() {
     }
     setPrefsResponse({ data: null, error: null, loading: true });
     try {
-      const response = await fetch(`${API_BASE_URL}/api/user-prefs/user/${testUserId}`);
-      const data = await response.json();
+      const data = await api.userPrefs.get(Number(testUserId));
       setPrefsResponse({ data, error: null, loading: false });
     } catch (error) {
       setPrefsResponse({ data: null, error: (error as Error).message, loading: false });
@@ -218,7 +205,7 @@ export default function ApiTestScreen() {
   return (
     <ScrollView style={styles.container}>
       <Text style={styles.header}>Calendar API Test Screen</Text>
-      <Text style={styles.subheader}>Backend: {API_BASE_URL}</Text>
+      <Text style={styles.subheader}>Backend: {environment.label} ({environment.apiUrl})</Text>
 
       {/* Input Fields */}
       <View style={styles.inputSection}>
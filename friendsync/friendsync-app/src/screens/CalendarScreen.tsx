@@ -1,11 +1,124 @@
 // src/screens/CalendarScreen.tsx
 
 import React, { useState, useMemo, useEffect, useCallback, useRef } from "react";
-import { View, Text, TouchableOpacity, Dimensions, ScrollView, Modal, TextInput, Button } from "react-native";
+import { View, Text, TouchableOpacity, Dimensions, ScrollView, Modal, TextInput, Button, RefreshControl } from "react-native";
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { Calendar } from "react-native-calendars"; // Calendar library
 import { useTheme } from "../lib/ThemeProvider";
-import db from "../lib/db";
+import db, { Event, FreeTimeSlot, OccurrenceScope } from "../lib/db";
+import { useDbQuery } from "../lib/dbHooks";
+import { describeRule, expandEvents, Frequency, formatLocalTime, formatRule, RecurrenceRule, recurrenceOf, ruleOf } from "../lib/recurrence";
+import { useCurrentUserId } from "../features/auth/AuthProvider";
+import { syncNow } from "../lib/sync";
+import { exportEvent, shareCalendar } from "../lib/ics";
+
+// Choices when editing or deleting an occurrence of a repeating event or free-time slot
+const SCOPES: [OccurrenceScope, string][] = [['this', 'This occurrence'], ['following', 'This and following'], ['all', 'All occurrences']];
+
+// What the calendar shows for the visible month
+type CalendarData = { myAvailability: any[]; friendAvailability: any[]; myEvents: any[]; invitedEvents: any[] };
+
+const NO_CALENDAR_DATA: CalendarData = { myAvailability: [], friendAvailability: [], myEvents: [], invitedEvents: [] };
+
+// Load the user's events and free time, friends' free time and the events the user is invited to
+// around `month`, normalized into the shape the calendar renderer expects
+async function loadCalendar(currentUserId: number | null, visibleMonth: { year: number; monthIndex: number }): Promise<CalendarData> {
+  if (currentUserId == null) return NO_CALENDAR_DATA;
+
+  // the visible month plus a week either side covers the leading/trailing days in the grid
+  const from = formatLocalTime(new Date(visibleMonth.year, visibleMonth.monthIndex, 1 - 7));
+  const to = formatLocalTime(new Date(visibleMonth.year, visibleMonth.monthIndex + 1, 1 + 7));
+
+  // my events and free time, repeating ones expanded into their occurrences
+  const mine = await db.getOccurrencesInRange([currentUserId], from, to);
+  const myEv = mine.filter((e) => e.isEvent);
+  const myFt = mine.filter((e) => !e.isEvent);
+
+  // friends' free time
+  const friendIds = await db.getFriendsForUser(currentUserId);
+  const friendFree = await db.getOccurrencesInRange(friendIds, from, to, { isEvent: false });
+  const names = new Map<number, string>();
+  await Promise.all(friendIds.map(async (fid) => {
+    const u = await db.getUserById(fid);
+    names.set(fid, u?.username ?? `user:${fid}`);
+  }));
+  const friendEntries: (FreeTimeSlot & { name: string })[] = friendFree.map((slot) => ({
+    ...slot,
+    isEvent: false,
+    name: names.get(slot.userId) ?? `user:${slot.userId}`,
+  }));
+
+  // invited events via RSVPs
+  // a declined invitation drops off the calendar
+  const rsvps = (await db.getRsvpsForUser(currentUserId)).filter((r) => r.status !== 'declined');
+  const statusByEvent = new Map(rsvps.map((r) => [r.eventId, r.status] as const));
+  const invitedEvents = expandEvents(await db.getEventsByIds(rsvps.map((r) => r.eventId)), from, to);
+  const invited: (Event & { rsvpStatus: string })[] = invitedEvents.map((ev) => ({
+    ...ev,
+    rsvpStatus: statusByEvent.get(ev.eventId) ?? 'pending',
+  }));
+
+  // Normalize events and free-time into shape the calendar renderer expects:
+  const normalizeDate = (iso?: string | null) => {
+    try {
+      if (!iso) return null;
+      const d = new Date(iso);
+      if (Number.isNaN(d.getTime())) return null;
+      return d.toISOString().slice(0, 10);
+    } catch { return null; }
+  };
+
+  const fmtTime = (iso?: string | null) => {
+    try {
+      if (!iso) return '';
+      const d = new Date(iso);
+      if (Number.isNaN(d.getTime())) return '';
+      return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    } catch { return ''; }
+  };
+
+  // Event.date is a full ISO string for some rows and YYYY-MM-DD for others
+  const dayOf = (e: Event) => (e.date ? (e.date.length >= 10 ? e.date.slice(0, 10) : e.date) : normalizeDate(e.startTime));
+
+  const normalizedMyEvents = myEv.map((e) => ({
+    ...e,
+    date: dayOf(e),
+    time: fmtTime(e.startTime),
+    title: e.eventTitle ?? e.description ?? 'Event',
+    type: 'myEvent',
+  })).filter((x) => !!x.date);
+
+  const normalizedMyFree = myFt.map((f) => ({
+    ...f,
+    date: normalizeDate(f.startTime),
+    time: fmtTime(f.startTime),
+    title: f.eventTitle ?? 'Free',
+    type: 'mine',
+  })).filter((x) => !!x.date);
+
+  const normalizedFriends = friendEntries.map((f) => ({
+    ...f,
+    date: dayOf(f),
+    time: fmtTime(f.startTime),
+    title: f.eventTitle ?? f.name,
+    type: 'friend',
+  })).filter((x) => !!x.date);
+
+  const normalizedInvited = invited.map((e) => ({
+    ...e,
+    date: dayOf(e),
+    time: fmtTime(e.startTime),
+    title: e.eventTitle ?? e.description ?? 'Invited',
+    type: 'invitedEvent',
+  })).filter((x) => !!x.date);
+
+  return {
+    myEvents: normalizedMyEvents,
+    myAvailability: normalizedMyFree,
+    friendAvailability: normalizedFriends,
+    invitedEvents: normalizedInvited,
+  };
+}
 
 /**
  * CalendarScreen
@@ -32,14 +145,25 @@ export default function CalendarScreen() {
   // ---------------------------
 
   // Data loaded from DB
-  const [currentUserId, setCurrentUserId] = useState<number>(1); // seeded user id
-  const [myAvailability, setMyAvailability] = useState<any[]>([]);
-  const [friendAvailability, setFriendAvailability] = useState<any[]>([]);
-  const [myEvents, setMyEvents] = useState<any[]>([]);
-  const [invitedEvents, setInvitedEvents] = useState<any[]>([]);
-  const [loadingData, setLoadingData] = useState<boolean>(false);
-
-  // initial data arrays are empty and will be populated from db
+  const currentUserId = useCurrentUserId(); // null until the signed-in user's id is known
+  // Month shown by the calendar; only events around it are loaded
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), monthIndex: now.getMonth() };
+  });
+  // Re-queried after local edits or a background sync write anything the calendar shows, and when
+  // the screen regains focus
+  const calendar = useDbQuery(
+    ['events', 'rsvps', 'friends', 'users'],
+    () => loadCalendar(currentUserId, visibleMonth),
+    [currentUserId, visibleMonth],
+  );
+  const { myAvailability, friendAvailability, myEvents, invitedEvents } = calendar.data ?? NO_CALENDAR_DATA;
+  const loadData = calendar.reload;
+  useEffect(() => {
+    // eslint-disable-next-line no-console
+    if (calendar.error) console.warn('Calendar load failed', calendar.error);
+  }, [calendar.error]);
 
 
   //Modal control
@@ -382,121 +506,22 @@ export default function CalendarScreen() {
     );
   };
 
-  // Load data from DB when currentUserId or toggles change or when the
-  // screen regains focus. We extract the loader so it can be invoked from
-  // multiple lifecycle hooks (initial mount, dependency changes, and focus).
   const mountedRef = useRef(true);
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => { mountedRef.current = false; };
+  }, []);
 
-  const loadData = useCallback(async () => {
-  // Debug: indicate loader was called (useful to verify focus events)
-  // Commented out to reduce console noise during normal development
-  // eslint-disable-next-line no-console
-  // console.log('Calendar: loadData called', { currentUserId });
-    setLoadingData(true);
+  // Pull-to-refresh: sync with the backend now, then reload (also covers a sync that wrote nothing)
+  const [refreshing, setRefreshing] = useState(false);
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
     try {
-      await db.init_db();
-
-      // my events and free time
-      const myEv = await db.getEventsForUser(currentUserId);
-      const myFt = await db.getFreeTimeForUser(currentUserId);
-
-      // friends' free time
-      const friendIds = await db.getFriendsForUser(currentUserId);
-      const friendEntries: any[] = [];
-      await Promise.all(friendIds.map(async (fid) => {
-        const fFree = await db.getFreeTimeForUser(fid);
-        const u = await db.getUserById(fid);
-        const name = u?.username ?? `user:${fid}`;
-        (fFree || []).forEach((slot: any) => friendEntries.push({ ...slot, name }));
-      }));
-
-      // invited events via RSVPs
-      const rsvps = await db.getRsvpsForUser(currentUserId);
-      const invited: any[] = [];
-      await Promise.all((rsvps || []).map(async (r: any) => {
-        try {
-          const ownerEvents = await db.getEventsForUser(r.eventOwnerId);
-          const ev = (ownerEvents || []).find((e: any) => (e.eventId ?? e.eventId) === r.eventId || e.eventId === r.eventId);
-          if (ev) invited.push({ ...ev, rsvpStatus: r.status });
-        } catch (e) {
-          // ignore per-item errors
-        }
-      }));
-
-      if (!mountedRef.current) return;
-
-      // Normalize events and free-time into shape the calendar renderer expects:
-      const normalizeDate = (iso?: string | null) => {
-        try {
-          if (!iso) return null;
-          const d = new Date(iso);
-          if (Number.isNaN(d.getTime())) return null;
-          return d.toISOString().slice(0, 10);
-        } catch { return null; }
-      };
-
-      const fmtTime = (iso?: string | null) => {
-        try {
-          if (!iso) return '';
-          const d = new Date(iso);
-          if (Number.isNaN(d.getTime())) return '';
-          return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-        } catch { return ''; }
-      };
-
-      const normalizedMyEvents = (myEv || []).map((e: any) => ({
-        ...e,
-        date: e.date ? (typeof e.date === 'string' ? (e.date.length >= 10 ? e.date.slice(0, 10) : e.date) : normalizeDate(e.date)) : normalizeDate(e.startTime),
-        time: e.startTime ? fmtTime(e.startTime) : '',
-        title: e.eventTitle ?? e.title ?? e.description ?? 'Event',
-        type: 'myEvent',
-      })).filter((x: any) => !!x.date);
-
-      const normalizedMyFree = (myFt || []).map((f: any) => ({
-        ...f,
-        date: normalizeDate(f.startTime),
-        time: fmtTime(f.startTime),
-        title: f.eventTitle ?? f.title ?? 'Free',
-        type: 'mine',
-      })).filter((x: any) => !!x.date);
-
-      const normalizedFriends = friendEntries.map((f: any) => ({
-        ...f,
-        date: f.date ? (typeof f.date === 'string' && f.date.length >= 10 ? f.date.slice(0, 10) : normalizeDate(f.date)) : normalizeDate(f.startTime),
-        time: f.startTime ? fmtTime(f.startTime) : f.time ?? '',
-        title: f.eventTitle ?? f.title ?? f.name ?? 'Free',
-        type: 'friend',
-      })).filter((x: any) => !!x.date);
-
-      const normalizedInvited = invited.map((e: any) => ({
-        ...e,
-        date: e.date ? (typeof e.date === 'string' ? (e.date.length >= 10 ? e.date.slice(0, 10) : e.date) : normalizeDate(e.date)) : normalizeDate(e.startTime),
-        time: e.startTime ? fmtTime(e.startTime) : '',
-        title: e.eventTitle ?? e.title ?? e.description ?? 'Invited',
-        type: 'invitedEvent',
-      })).filter((x: any) => !!x.date);
-
-  // Update state if still mounted
-  setMyEvents(normalizedMyEvents);
-  setMyAvailability(normalizedMyFree);
-  setFriendAvailability(normalizedFriends);
-  setInvitedEvents(normalizedInvited);
-  // Debug: summary of loaded counts (commented out by request)
-  // eslint-disable-next-line no-console
-  // console.log('Calendar: loadData result', { myEvents: normalizedMyEvents.length, myFree: normalizedMyFree.length, friends: normalizedFriends.length, invited: normalizedInvited.length });
-    } catch (e) {
-      // eslint-disable-next-line no-console
-      console.warn('Calendar load failed', e);
+      await syncNow();
+      await loadData();
     } finally {
-      if (mountedRef.current) setLoadingData(false);
+      if (mountedRef.current) setRefreshing(false);
     }
-  }, [currentUserId, showMine, showFriends, showMyEvents, showInvitedEvents]);
-
-  // Call loadData on mount and when dependencies change
-  useEffect(() => {
-    mountedRef.current = true;
-    loadData();
-    return () => { mountedRef.current = false; };
   }, [loadData]);
 
   // --- Modals ---
@@ -505,8 +530,57 @@ export default function CalendarScreen() {
   const EventDetailModal = () => {
     const [rsvps, setRsvps] = useState<any[] | null>(null);
     const [ownerName, setOwnerName] = useState<string | null>(null);
+    // Edit and Delete on an occurrence of a repeating event first ask which occurrences they apply to
+    const [scopeFor, setScopeFor] = useState<'edit' | 'delete' | null>(null);
     if (modalType !== 'event' || !modalPayload) return null;
     const e = modalPayload;
+    // Only the owner can edit or delete; an invitee can decline instead
+    const isOwner = e.userId != null && e.userId === currentUserId;
+    const myRsvp = !isOwner && rsvps ? rsvps.find((r: any) => r.inviteRecipientId === currentUserId) : undefined;
+
+    const reopen = async () => {
+      await loadData();
+      if (e && (e as any)._returnTo) {
+        const ret = (e as any)._returnTo;
+        // reopen the day list for the same date (fresh data)
+        setModalType(ret.type as any);
+        setModalPayload({ date: ret.payload.date, entries: dataByDate[ret.payload.date] || [] });
+      } else {
+        closeModal();
+      }
+    };
+
+    const remove = async (scope: OccurrenceScope) => {
+      try {
+        if (e.recurrenceId) await db.deleteOccurrence(e.eventId, e.recurrenceId, scope);
+        else await db.deleteEvent(e.eventId);
+        await reopen();
+      } catch (err) {
+        // ignore
+        closeModal();
+      }
+    };
+
+    const decline = async () => {
+      try {
+        await db.updateRsvp(myRsvp.rsvpId, { status: 'declined' });
+        await reopen();
+      } catch (err) {
+        // ignore
+        closeModal();
+      }
+    };
+
+    const edit = async (scope: OccurrenceScope) => {
+      // An occurrence carries its own day; editing the whole series starts from the stored row
+      const [series] = e.recurrenceId && scope === 'all' ? await db.getEventsByIds([e.eventId]) : [];
+      const ev = series ? { ...e, ...series, date: series.date ?? (series.startTime ? series.startTime.slice(0, 10) : undefined) } : e;
+      // Open create modal in edit mode with the existing event
+      const derivedDate = ev.date || (ev.startTime ? new Date(ev.startTime).toISOString().slice(0,10) : undefined);
+      // Carry along the return-to info so after editing we can go back if desired
+      setModalPayload({ event: ev, date: derivedDate, editMode: true, scope, _returnTo: (e as any)._returnTo });
+      setModalType('create');
+    };
 
     useEffect(() => {
       let mounted = true;
@@ -540,7 +614,7 @@ export default function CalendarScreen() {
             {e.date ? <Text style={{ marginTop: 6, color: t.color.textMuted }}>Date: {String(e.date)}</Text> : null}
             {e.startTime ? <Text style={{ marginTop: 6, color: t.color.text }}>Start: {new Date(e.startTime).toLocaleString([], { hour: '2-digit', minute: '2-digit', month: 'short', day: 'numeric' })}</Text> : null}
             {e.endTime ? <Text style={{ marginTop: 2, color: t.color.text }}>End: {new Date(e.endTime).toLocaleString([], { hour: '2-digit', minute: '2-digit' })}</Text> : null}
-            {e.recurring ? <Text style={{ marginTop: 6, color: t.color.textMuted }}>Repeats: {e.recurring === 0 ? 'None' : e.recurring === 1 ? 'Daily' : e.recurring === 7 ? 'Weekly' : e.recurring === 30 ? 'Monthly' : String(e.recurring)}</Text> : null}
+            {ruleOf(e) ? <Text style={{ marginTop: 6, color: t.color.textMuted }}>Repeats: {describeRule(ruleOf(e)!)}</Text> : null}
             {ownerName ? <Text style={{ marginTop: 6, color: t.color.textMuted }}>Created by: {ownerName}</Text> : null}
             {e.description ? <Text style={{ marginTop: 8, color: t.color.text }}>{e.description}</Text> : null}
 
@@ -553,44 +627,46 @@ export default function CalendarScreen() {
               </View>
             ) : null}
 
-            <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 12 }}>
-              <Button title="Close" onPress={() => {
-                // If this detail was opened from a list, return to that list; otherwise close
-                if (e && (e as any)._returnTo) {
-                  const ret = (e as any)._returnTo;
-                  setModalType(ret.type as any);
-                  setModalPayload(ret.payload);
-                } else {
-                  closeModal();
-                }
-              }} />
-              {e.eventId ? <View style={{ width: 8 }} /> : null}
-              {e.eventId ? <Button title="Delete" color="#d9534f" onPress={async () => {
-                try {
-                  await db.deleteEvent(e.eventId);
-                  await loadData();
+            {scopeFor ? (
+              <View style={{ marginTop: 12 }}>
+                <Text style={{ fontWeight: '600', color: t.color.text }}>{scopeFor === 'edit' ? 'Edit' : 'Delete'} which {e.isEvent === false ? 'slots' : 'events'}?</Text>
+                {SCOPES.map(([scope, label]) => (
+                  <View key={scope} style={{ marginTop: 6 }}>
+                    <Button title={label} color={scopeFor === 'delete' ? '#d9534f' : undefined} onPress={() => (scopeFor === 'edit' ? edit(scope) : remove(scope))} />
+                  </View>
+                ))}
+                <View style={{ marginTop: 6 }}>
+                  <Button title="Cancel" onPress={() => setScopeFor(null)} />
+                </View>
+              </View>
+            ) : (
+              <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 12 }}>
+                <Button title="Close" onPress={() => {
+                  // If this detail was opened from a list, return to that list; otherwise close
                   if (e && (e as any)._returnTo) {
                     const ret = (e as any)._returnTo;
-                    // reopen the day list for the same date (fresh data)
                     setModalType(ret.type as any);
-                    setModalPayload({ date: ret.payload.date, entries: dataByDate[ret.payload.date] || [] });
+                    setModalPayload(ret.payload);
                   } else {
                     closeModal();
                   }
-                } catch (err) {
-                  // ignore
-                  closeModal();
-                }
-              }} /> : null}
-              {e.userId && e.userId === currentUserId ? <View style={{ width: 8 }} /> : null}
-              {e.userId && e.userId === currentUserId ? <Button title="Edit" onPress={() => {
-                // Open create modal in edit mode with the existing event
-                const derivedDate = e.date || (e.startTime ? new Date(e.startTime).toISOString().slice(0,10) : undefined);
-                // Carry along the return-to info so after editing we can go back if desired
-                setModalPayload({ event: e, date: derivedDate, editMode: true, _returnTo: (e as any)._returnTo });
-                setModalType('create');
-              }} /> : null}
-            </View>
+                }} />
+                {isOwner && e.eventId ? <View style={{ width: 8 }} /> : null}
+                {isOwner && e.eventId ? <Button title="Delete" color="#d9534f" onPress={() => (e.recurrenceId ? setScopeFor('delete') : remove('all'))} /> : null}
+                {isOwner ? <View style={{ width: 8 }} /> : null}
+                {isOwner ? <Button title="Edit" onPress={() => (e.recurrenceId ? setScopeFor('edit') : edit('all'))} /> : null}
+                {myRsvp && myRsvp.status !== 'declined' ? <View style={{ width: 8 }} /> : null}
+                {myRsvp && myRsvp.status !== 'declined' ? <Button title="Decline" color="#d9534f" onPress={decline} /> : null}
+                {e.eventId ? <View style={{ width: 8 }} /> : null}
+                {e.eventId ? <Button title="Export" onPress={async () => {
+                  try {
+                    await shareCalendar(await exportEvent(e.eventId), `${String(e.eventTitle ?? 'event').replace(/[^\w-]+/g, '_')}.ics`);
+                  } catch (err) {
+                    // ignore
+                  }
+                }} /> : null}
+              </View>
+            )}
           </View>
         </View>
       </Modal>
@@ -643,7 +719,7 @@ export default function CalendarScreen() {
     const [endHour, setEndHour] = useState<number>(10);
     const [endMinute, setEndMinute] = useState<number>(0);
     const [description, setDescription] = useState<string>('');
-    const [recurringFreq, setRecurringFreq] = useState<'none'|'daily'|'weekly'|'monthly'>('none');
+    const [recurringFreq, setRecurringFreq] = useState<'none'|'daily'|'weekly'|'monthly'|'yearly'>('none');
 
     useEffect(() => {
       if (modalType === 'create' && modalPayload) {
@@ -651,7 +727,7 @@ export default function CalendarScreen() {
         const editing = !!modalPayload.editMode && modalPayload.event;
         if (editing) {
           const ev = modalPayload.event;
-          setIsEventToggle(!(ev.isEvent === 0));
+          setIsEventToggle(ev.isEvent !== false);
           setTitle(ev.eventTitle ?? ev.title ?? '');
           try {
             if (ev.startTime) {
@@ -672,8 +748,8 @@ export default function CalendarScreen() {
             // ignore
           }
           setDescription(ev.description ?? '');
-          const rc = ev.recurring ?? 0;
-          setRecurringFreq(rc === 0 ? 'none' : rc === 1 ? 'daily' : rc === 7 ? 'weekly' : rc === 30 ? 'monthly' : 'none');
+          const rule = ruleOf(ev);
+          setRecurringFreq(rule ? (rule.freq.toLowerCase() as 'daily'|'weekly'|'monthly'|'yearly') : 'none');
         } else {
           setIsEventToggle(true);
           setTitle('');
@@ -688,11 +764,21 @@ export default function CalendarScreen() {
     }, [modalType, modalPayload]);
 
     const save = async () => {
+      if (currentUserId == null) return;
       const pad = (n: number) => String(n).padStart(2, '0');
       const isoStart = `${date}T${pad(startHour)}:${pad(startMinute)}:00`;
       const isoEnd = `${date}T${pad(endHour)}:${pad(endMinute)}:00`;
-      const recurringCode = recurringFreq === 'none' ? 0 : recurringFreq === 'daily' ? 1 : recurringFreq === 'weekly' ? 7 : 30;
       const editing = !!modalPayload?.editMode && modalPayload?.event;
+      // which occurrences of a repeating event the edit applies to (see EventDetailModal)
+      const scope: OccurrenceScope | undefined = modalPayload?.scope;
+      const recurrenceId: string | null = editing ? modalPayload.event.recurrenceId ?? null : null;
+      const freq = recurringFreq === 'none' ? null : (recurringFreq.toUpperCase() as Frequency);
+      const previous = editing ? ruleOf(modalPayload.event) : null;
+      // a rule's details (interval, days, end) are kept as long as its frequency is unchanged
+      const ruleChanged = (freq ?? null) !== (previous?.freq ?? null);
+      const rule: RecurrenceRule | null = freq == null ? null : ruleChanged || !previous ? { freq, interval: 1 } : { ...previous, freq };
+      const rrule = rule ? formatRule(rule) : null;
+      const recurringCode = recurrenceOf(rule);
       if (editing && modalPayload.event && modalPayload.event.eventId) {
         // update existing
         const eid = modalPayload.event.eventId;
@@ -701,27 +787,31 @@ export default function CalendarScreen() {
           if (!title.trim()) return; // require title
           fields.eventTitle = title || 'Event';
           fields.description = description || null;
-          fields.recurring = recurringCode;
-          fields.isEvent = 1;
+          fields.isEvent = true;
           fields.date = date || null;
         } else {
           fields.eventTitle = null;
           fields.description = null;
-          fields.isEvent = 0;
+          fields.isEvent = false;
           fields.date = date || null;
         }
+        if (ruleChanged && scope !== 'this') {
+          fields.recurring = recurringCode;
+          fields.rrule = rrule;
+        }
         fields.startTime = isoStart;
         fields.endTime = isoEnd;
-        await db.updateEvent(eid, fields);
+        if (recurrenceId && scope) await db.updateOccurrence(eid, recurrenceId, scope, fields);
+        else await db.updateEvent(eid, fields);
       } else {
         if (isEventToggle) {
           if (!title.trim()) {
             // simple validation: require a title for events
             return;
           }
-          await db.createEvent({ userId: currentUserId, eventTitle: title || 'Event', description: description || undefined, startTime: isoStart, endTime: isoEnd, date, isEvent: 1, recurring: recurringCode });
+          await db.createEvent({ userId: currentUserId, eventTitle: title || 'Event', description: description || undefined, startTime: isoStart, endTime: isoEnd, date, isEvent: true, recurring: recurringCode, rrule });
         } else {
-          await db.addFreeTime({ userId: currentUserId, startTime: isoStart, endTime: isoEnd });
+          await db.addFreeTime({ userId: currentUserId, startTime: isoStart, endTime: isoEnd, recurring: recurringCode, rrule });
         }
       }
       // After create/update, refresh data and return to the originating list if requested
@@ -838,11 +928,11 @@ export default function CalendarScreen() {
                 </View>
               )}
 
-              {isEventToggle && (
+              {modalPayload?.scope !== 'this' && (
                 <View style={{ marginBottom: 6 }}>
                   <Text style={{ color: t.color.text, marginBottom: 6 }}>Repeat</Text>
-                  <View style={{ flexDirection: 'row' }}>
-                    {(['none','daily','weekly','monthly'] as const).map((opt) => (
+                  <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+                    {(['none','daily','weekly','monthly','yearly'] as const).map((opt) => (
                       <TouchableOpacity key={opt} onPress={() => setRecurringFreq(opt)} style={{ paddingVertical: 8, paddingHorizontal: 10, marginRight: 8, borderRadius: 6, backgroundColor: recurringFreq === opt ? '#3A8DFF' : '#eee' }}>
                         <Text style={{ color: recurringFreq === opt ? '#fff' : '#000' }}>{opt === 'none' ? 'None' : opt.charAt(0).toUpperCase() + opt.slice(1)}</Text>
                       </TouchableOpacity>
@@ -926,6 +1016,7 @@ export default function CalendarScreen() {
     <ScrollView
       style={{ flex: 1, backgroundColor: t.color.bg, padding: t.space.lg }}
       contentContainerStyle={{ paddingBottom: extraBottomPad, minHeight: contentMinHeight }}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
       onLayout={(e) => {
         const h = e.nativeEvent.layout.height;
         // log measured viewport/container height
@@ -1053,6 +1144,7 @@ export default function CalendarScreen() {
             const monthIndex = m - 1;
             const w = computeWeeksForMonth(y, monthIndex);
             setRows(w);
+            setVisibleMonth((prev) => (prev.year === y && prev.monthIndex === monthIndex ? prev : { year: y, monthIndex }));
             // eslint-disable-next-line no-console
             // console.log('onVisibleMonthsChange: ' + JSON.stringify({ year: y, month: m, rows: w }));
           }}
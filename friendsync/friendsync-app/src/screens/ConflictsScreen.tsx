@@ -0,0 +1,145 @@
+// src/screens/ConflictsScreen.tsx
+// Review edits that clashed with the backend during sync, pick a side, and set the default policy.
+
+import { useEffect, useState } from 'react';
+import { FlatList, Modal, Pressable, Text, View } from 'react-native';
+import Screen from '../components/ScreenTmp';
+import RowItem from '../components/RowItem';
+import { useTheme } from '../lib/ThemeProvider';
+import { useConflicts } from '../lib/dbHooks';
+import db, { Conflict } from '../lib/db';
+import { CONFLICT_POLICIES, ConflictPolicy, getConflictPolicy, resolveConflict, setConflictPolicy } from '../lib/conflicts';
+
+const POLICY_LABELS: { [P in ConflictPolicy]: string } = {
+  'server-wins': 'Server wins',
+  'client-wins': 'My changes win',
+  merge: 'Merge fields',
+};
+
+const TABLE_LABELS: { [T in Conflict['table']]: string } = {
+  events: 'Event',
+  rsvps: 'RSVP',
+  user_prefs: 'Preferences',
+};
+
+const RESOLUTION_LABELS = { server: 'Server kept', client: 'Yours kept', merge: 'Merged' };
+
+function describe(c: Conflict): string {
+  const name = c.local.eventTitle ?? c.remote.eventTitle;
+  return name ? `${TABLE_LABELS[c.table]}: ${name}` : `${TABLE_LABELS[c.table]} #${c.localId}`;
+}
+
+const show = (v: unknown) => (v == null || v === '' ? '—' : String(v));
+
+export default function ConflictsScreen() {
+  const t = useTheme();
+  const { data: conflicts } = useConflicts();
+  const [policy, setPolicy] = useState<ConflictPolicy | null>(null);
+  const [selected, setSelected] = useState<Conflict | null>(null);
+
+  useEffect(() => {
+    getConflictPolicy().then(setPolicy);
+  }, []);
+
+  const choosePolicy = async (next: ConflictPolicy) => {
+    setPolicy(next);
+    await setConflictPolicy(next);
+  };
+
+  const pick = async (choice: 'server' | 'client') => {
+    if (!selected) return;
+    await resolveConflict(selected.conflictId, choice);
+    setSelected(null);
+  };
+
+  const button = (label: string, onPress: () => void, active = false) => (
+    <Pressable
+      key={label}
+      onPress={onPress}
+      accessibilityRole="button"
+      style={({ pressed }) => ({
+        paddingVertical: 8,
+        paddingHorizontal: 14,
+        borderRadius: t.radius.md,
+        borderWidth: 1,
+        borderColor: active ? t.color.accent : t.color.border,
+        backgroundColor: pressed || active ? t.color.surfaceAlt : t.color.surface,
+      })}
+    >
+      <Text style={{ color: '#fff', fontWeight: '600' }}>{label}</Text>
+    </Pressable>
+  );
+
+  return (
+    <Screen>
+      <Text style={{ color: t.color.text, fontSize: t.font.h1, fontWeight: '700', marginBottom: t.space.sm }}>
+        Sync Conflicts
+      </Text>
+      <Text style={{ color: t.color.textMuted, marginBottom: t.space.md }}>
+        When something you changed offline was also changed on the server, this decides what is kept.
+      </Text>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: t.space.sm, marginBottom: t.space.lg }}>
+        {CONFLICT_POLICIES.map((p) => button(POLICY_LABELS[p], () => choosePolicy(p), policy === p))}
+      </View>
+
+      <FlatList
+        data={conflicts ?? []}
+        keyExtractor={(c) => String(c.conflictId)}
+        ListEmptyComponent={<Text style={{ color: t.color.textMuted }}>No conflicts.</Text>}
+        renderItem={({ item }) => (
+          <RowItem
+            title={describe(item)}
+            subtitle={item.fields.join(', ')}
+            rightLabel={item.resolution ? RESOLUTION_LABELS[item.resolution] : 'Needs review'}
+            onPress={() => setSelected(item)}
+            testID={`conflict-${item.conflictId}`}
+          />
+        )}
+      />
+
+      {(conflicts ?? []).some((c) => c.resolvedAt) && (
+        <View style={{ alignItems: 'flex-start', marginTop: t.space.sm }}>
+          {button('Clear resolved', () => db.clearResolvedConflicts())}
+        </View>
+      )}
+
+      <Modal visible={!!selected} animationType="slide" transparent onRequestClose={() => setSelected(null)}>
+        <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', alignItems: 'center', justifyContent: 'center', padding: t.space.lg }}>
+          <View
+            style={{
+              width: '100%',
+              maxWidth: 520,
+              backgroundColor: t.color.surface,
+              borderRadius: t.radius.lg,
+              padding: t.space.lg,
+              borderWidth: 1,
+              borderColor: t.color.border,
+            }}
+          >
+            {selected && (
+              <>
+                <Text style={{ color: '#fff', fontSize: 20, fontWeight: '700' }}>{describe(selected)}</Text>
+                <Text style={{ color: t.color.textMuted, marginTop: t.space.xs }}>
+                  {selected.resolution ? RESOLUTION_LABELS[selected.resolution] : 'The server’s values are shown until you choose.'}
+                </Text>
+                {selected.fields.map((f) => (
+                  <View key={f} style={{ marginTop: t.space.sm }}>
+                    <Text style={{ color: t.color.text, fontWeight: '600' }}>{f}</Text>
+                    <Text style={{ color: t.color.textMuted }}>Yours: {show(selected.local[f])}</Text>
+                    <Text style={{ color: t.color.textMuted }}>Server: {show(selected.remote[f])}</Text>
+                  </View>
+                ))}
+                <View style={{ flexDirection: 'row', justifyContent: 'flex-end', gap: t.space.sm, marginTop: t.space.lg }}>
+                  {button('Keep mine', () => pick('client'))}
+                  {button('Keep server', () => pick('server'))}
+                  {button('Close', () => setSelected(null))}
+                </View>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </Screen>
+  );
+}
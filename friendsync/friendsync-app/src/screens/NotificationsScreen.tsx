@@ -7,20 +7,35 @@ import Screen from '../components/ScreenTmp';
 import { useTheme } from '../lib/ThemeProvider';
 import RowItem from '../components/RowItem';
 import DetailModal from '../components/DetailModal';
+import { useNotifications } from '../lib/dbHooks';
+import { useCurrentUserId } from '../features/auth/AuthProvider';
 
 type NoteRow = { id: string; title: string; body?: string; time?: string };
 
+const TITLES: Record<string, string> = { invite: 'Invite', rsvp: 'RSVP update', friend: 'Friend request', reminder: 'Reminder' };
+
+// How long ago `iso` was, e.g. 5m, 2h or 3d
+function ago(iso: string): string | undefined {
+  const minutes = Math.floor((Date.now() - Date.parse(iso)) / 60000);
+  if (Number.isNaN(minutes)) return undefined;
+  if (minutes < 60) return `${Math.max(minutes, 0)}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / (24 * 60))}d`;
+}
+
 export default function NotificationsScreen() {
   const t = useTheme();
 
+  // re-queried whenever a sync or a local write changes the notifications
+  const { data } = useNotifications(useCurrentUserId());
   const notes: NoteRow[] = useMemo(
-    () => [
-      { id: 'n1', title: 'Invite: Study Group', body: 'Bryan invited you. Mon 5–7 PM.', time: '2h' },
-      { id: 'n2', title: 'RSVP update',         body: 'Alana accepted Movie Night.',     time: '5h' },
-      { id: 'n3', title: 'Friend request',      body: 'Justin sent you a request.',      time: '1d' },
-      { id: 'n4', title: 'Reminder',            body: 'Dinner at Campus Cafe 7 PM.',    time: '2d' },
-    ],
-    []
+    () => (data ?? []).map((n) => ({
+      id: String(n.notificationId),
+      title: (n.notifType && TITLES[n.notifType]) ?? 'Notification',
+      body: n.notifMsg,
+      time: ago(n.createdAt),
+    })),
+    [data]
   );
 
   const [selected, setSelected] = useState<NoteRow | null>(null);
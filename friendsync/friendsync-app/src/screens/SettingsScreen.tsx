@@ -1,14 +1,16 @@
 // src/screens/SettingsScreen.tsx
 
-import React, { useMemo } from 'react';
-import { View, Text, TouchableOpacity } from 'react-native';
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, TextInput, Button, Platform } from 'react-native';
 import Screen from '../components/ScreenTmp';
 import { useTheme } from '../lib/ThemeProvider';
 import { Calendar } from 'react-native-big-calendar';
 
 // added 
 import { auth } from "../lib/firebase";
-import { useAuth } from "../features/auth/AuthProvider";
+import { useAuth, useCurrentUserId } from "../features/auth/AuthProvider";
+import { useNavigation } from '@react-navigation/native';
+import { exportCalendar, importCalendar, pickCalendarFile, shareCalendar } from '../lib/ics';
 
 
 /* 
@@ -40,6 +42,34 @@ const addDays = (date: Date, days: number) => {
 
 export default function SettingsScreen() {
   const t = useTheme();
+  const navigation = useNavigation();
+  const userId = useCurrentUserId();
+
+  // .ics import/export
+  const [importOpen, setImportOpen] = useState(false);
+  const [icsText, setIcsText] = useState('');
+  const [icsNote, setIcsNote] = useState<string | null>(null);
+
+  const exportIcs = async () => {
+    if (userId == null) return;
+    try {
+      await shareCalendar(await exportCalendar(userId));
+    } catch (e) {
+      setIcsNote(`Export failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const importIcs = async () => {
+    if (userId == null || !icsText.trim()) return;
+    try {
+      const r = await importCalendar(userId, icsText);
+      setIcsNote(`Imported ${r.created} new, ${r.updated} updated, ${r.unchanged} unchanged${r.deleted ? `, ${r.deleted} removed` : ''}${r.skipped ? `, ${r.skipped} skipped` : ''}`);
+      setImportOpen(false);
+      setIcsText('');
+    } catch (e) {
+      setIcsNote(`Import failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
 
   //Determine start & end of fixed week (Sunday → Saturday)
   const today = new Date();
@@ -140,6 +170,55 @@ export default function SettingsScreen() {
           hourStyle={{ color: t.color.textMuted }}
         />
       </View>
+      {/* Offline edits that clashed with the server */}
+      <TouchableOpacity
+        onPress={() => navigation.navigate('Conflicts' as never)}
+        activeOpacity={0.7}
+        style={{ marginTop: t.space.md }}
+      >
+        <Text style={{ color: t.color.text }}>Review Sync Conflicts</Text>
+      </TouchableOpacity>
+
+      {/* Calendar files (.ics) for other calendar apps */}
+      <TouchableOpacity onPress={exportIcs} activeOpacity={0.7} style={{ marginTop: t.space.md }}>
+        <Text style={{ color: t.color.text }}>Export Calendar (.ics)</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => setImportOpen(true)} activeOpacity={0.7} style={{ marginTop: t.space.md }}>
+        <Text style={{ color: t.color.text }}>Import Calendar (.ics)</Text>
+      </TouchableOpacity>
+      {icsNote ? <Text style={{ color: t.color.textMuted, marginTop: t.space.sm }}>{icsNote}</Text> : null}
+
+      <Modal visible={importOpen} transparent animationType="slide" onRequestClose={() => setImportOpen(false)}>
+        <View style={{ flex: 1, backgroundColor: '#00000066', justifyContent: 'center', padding: 20 }}>
+          <View style={{ backgroundColor: t.color.surface, padding: 16, borderRadius: 8 }}>
+            <Text style={{ fontSize: 18, fontWeight: '700', color: t.color.text }}>Import Calendar</Text>
+            <Text style={{ color: t.color.textMuted, marginTop: 6 }}>
+              Paste the contents of an .ics file. Events imported before are updated instead of added again.
+            </Text>
+            <TextInput
+              value={icsText}
+              onChangeText={setIcsText}
+              placeholder="BEGIN:VCALENDAR…"
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={{ backgroundColor: '#fff', padding: 10, borderRadius: 6, minHeight: 160, marginTop: 10 }}
+            />
+            <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 12 }}>
+              {Platform.OS === 'web' ? (
+                <>
+                  <Button title="Choose File" onPress={async () => { const text = await pickCalendarFile(); if (text != null) setIcsText(text); }} />
+                  <View style={{ width: 8 }} />
+                </>
+              ) : null}
+              <Button title="Cancel" onPress={() => setImportOpen(false)} />
+              <View style={{ width: 8 }} />
+              <Button title="Import" onPress={importIcs} disabled={!icsText.trim()} />
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* --- Sign Out Section --- */}
       <View style={{ marginTop: 32, alignItems: "center" }}>
         <Text style={{ color: t.color.textMuted, marginBottom: 8 }}>
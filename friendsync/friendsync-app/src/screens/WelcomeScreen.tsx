@@ -7,7 +7,12 @@ import storageUtils from "../lib/storageUtils";
 import seedDummyData from "../lib/seed";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as simpleSync from "../lib/sync";
+import { startRealtime } from "../lib/realtime";
+import { setAuthToken } from "../lib/api";
 import db from "../lib/db";
+import { useSyncStatus } from "../lib/syncStatus";
+import { Environment, ENVIRONMENTS, setEnvironment, useEnvironment } from "../lib/config";
+import { signOutUser } from "../features/auth/useGoogleSignIn";
 
 export default function WelcomeScreen() {
   const t = useTheme();
@@ -18,6 +23,8 @@ export default function WelcomeScreen() {
   const [secretRevealed, setSecretRevealed] = useState(false);
   const tapState = useRef<{ count: number; timer: any }>({ count: 0, timer: null });
   const [syncStatus, setSyncStatus] = useState<string>("Checking...");
+  const sync = useSyncStatus();
+  const environment = useEnvironment();
 
   useEffect(() => {
     initializeApp();
@@ -31,12 +38,14 @@ export default function WelcomeScreen() {
       
       // Check if user is already logged in
       const token = await AsyncStorage.getItem('authToken');
-      const userId = await AsyncStorage.getItem('userId');
+      // the backend user id; sessions saved before it was mapped hold the Firebase uid instead
+      const userId = Number(await AsyncStorage.getItem('userId'));
 
-    if (token && userId && userId !== 'null' && userId !== 'undefined') {
+    if (token && Number.isInteger(userId) && userId > 0) {
       // User is logged in, ensure sync is running
-      simpleSync.setAuthToken(token);
-      simpleSync.startAutoSync(userId); // This is already a string, which is fine
+      setAuthToken(token);
+      simpleSync.startAutoSync(userId);
+      startRealtime(userId);
       setSyncStatus("✓ Syncing every 5 minutes");
       console.log("[Welcome] Sync resumed for existing session");
     } else {
@@ -78,6 +87,7 @@ export default function WelcomeScreen() {
   const dumpStorage = async () => {
     setLoading(true);
     try {
+      await db.flush();
       const out = await storageUtils.dumpAll();
       setDump(JSON.stringify(out, null, 2));
     } catch (e: any) {
@@ -87,15 +97,17 @@ export default function WelcomeScreen() {
     }
   };
 
-  const clearStorage = async () => {
-    const prompt = 'This will clear all app storage (navigation state, fallback DB, auth). Continue?';
-    const confirmed = Platform.OS === 'web' ? window.confirm(prompt) : await new Promise<boolean>(res => {
-      Alert.alert('Clear storage', prompt, [
+  const confirm = (title: string, prompt: string, action: string) =>
+    Platform.OS === 'web' ? Promise.resolve(window.confirm(prompt)) : new Promise<boolean>(res => {
+      Alert.alert(title, prompt, [
         { text: 'Cancel', style: 'cancel', onPress: () => res(false) },
-        { text: 'Clear', style: 'destructive', onPress: () => res(true) }
+        { text: action, style: 'destructive', onPress: () => res(true) }
       ]);
     });
-    if (!confirmed) return;
+
+  const clearStorage = async () => {
+    const prompt = 'This will clear all app storage (navigation state, fallback DB, auth). Continue?';
+    if (!(await confirm('Clear storage', prompt, 'Clear'))) return;
     setLoading(true);
     try {
       await storageUtils.clearAll();
@@ -107,9 +119,32 @@ export default function WelcomeScreen() {
     }
   };
 
+  // Rows and user ids synced from one backend mean nothing to another, so switching signs out and
+  // clears local storage before the new environment is saved
+  const switchEnvironment = async (next: Environment) => {
+    const target = ENVIRONMENTS[next];
+    const prompt = `Switch to ${target.label} (${target.apiUrl})? This signs you out and clears local data.`;
+    if (!(await confirm('Switch backend', prompt, 'Switch'))) return;
+    setLoading(true);
+    try {
+      await signOutUser();
+      // rows, server ids, the outbox and sync cursors all belong to the old backend; this empties every table
+      await storageUtils.clearAll();
+      await setEnvironment(next);
+      setSyncStatus("Not logged in");
+      setDump(`Switched to ${target.label}`);
+    } catch (e: any) {
+      setDump(String(e?.message ?? e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const showFallback = async () => {
     setLoading(true);
     try {
+      // the fallback snapshot is saved in batches; write pending changes before reading it back
+      await db.flush();
       const v = await storageUtils.exportKey('fallback_db_v1');
       setDump(JSON.stringify(v, null, 2));
     } catch (e: any) {
@@ -178,7 +213,7 @@ export default function WelcomeScreen() {
           Sign in button here
         </Text>
 
-        {__DEV__ && (secretRevealed || (globalThis as any).__DEBUG_UI__) ? (
+        {__DEV__ && (secretRevealed || globalThis.__DEBUG_UI__) ? (
           <View style={{ marginTop: t.space.lg, width: "80%" }}>
             {loading ? (
               <ActivityIndicator size="small" color={t.color.accent} />
@@ -192,15 +227,35 @@ export default function WelcomeScreen() {
           </View>
         ) : null}
 
-        {__DEV__ && (secretRevealed || (globalThis as any).__DEBUG_UI__) ? (
+        {__DEV__ && (secretRevealed || globalThis.__DEBUG_UI__) ? (
           <View style={{ marginTop: t.space.md, width: '80%', alignItems: 'stretch' }}>
             <View style={{ marginTop: t.space.sm }}>
               <Button title="Hide debug" onPress={() => setSecretRevealed(false)} color={t.color.accent} />
             </View>
+            <View style={{ marginTop: t.space.sm }}>
+              <Text style={{ color: t.color.text }}>
+                Backend: {environment.label} — {environment.apiUrl}
+              </Text>
+              <View style={{ flexDirection: 'row', marginTop: t.space.xs }}>
+                {(Object.keys(ENVIRONMENTS) as Environment[]).map((name) => (
+                  <View key={name} style={{ flex: 1, marginHorizontal: 2 }}>
+                    <Button
+                      title={ENVIRONMENTS[name].label}
+                      onPress={() => switchEnvironment(name)}
+                      disabled={ENVIRONMENTS[name].apiUrl == null || name === environment.name}
+                      color={t.color.accent}
+                    />
+                  </View>
+                ))}
+              </View>
+            </View>
             <View style={{ marginTop: t.space.sm }}>
               <View style={{ marginTop: t.space.xs }}>
                 <Button title="Refresh status" onPress={refreshStatus} color={t.color.accent} />
               </View>
+              <View style={{ marginTop: t.space.xs }}>
+                <Button title="Sync now" onPress={() => simpleSync.syncNow()} color={t.color.accent} />
+              </View>
               <View style={{ marginTop: t.space.xs }}>
                 <Button title="Dump storage" onPress={dumpStorage} color={t.color.accent} />
               </View>
@@ -217,14 +272,30 @@ export default function WelcomeScreen() {
           </View>
         ) : null}
 
+        {__DEV__ && (secretRevealed || globalThis.__DEBUG_UI__) ? (
+          <View style={{ marginTop: t.space.md, alignItems: "center" }}>
+            <Text style={{ color: t.color.text }}>
+              Sync: {sync.state}
+              {sync.lastSyncedAt ? ` — last synced ${new Date(sync.lastSyncedAt).toLocaleTimeString()}` : ''}
+              {sync.nextSyncAt ? ` — next ${new Date(sync.nextSyncAt).toLocaleTimeString()}` : ''}
+              {sync.live ? ' — live' : ''}
+            </Text>
+            {sync.errors.map((e, i) => (
+              <Text key={`${e.endpoint}-${i}`} style={{ color: "red" }}>
+                {e.endpoint}: {e.status ?? 'no response'} {e.message}
+              </Text>
+            ))}
+          </View>
+        ) : null}
+
         {status && (
           <View style={{ marginTop: t.space.md, alignItems: "center" }}>
             {status.error ? (
               <Text style={{ color: "red" }}>Error: {status.error}</Text>
             ) : (
               <Text style={{ color: t.color.text }}>
-                DB backend: {status.backend} — initialized:{" "}
-                {String(status.initialized)}
+                DB backend: {status.backend}{status.adapter ? ` (${status.adapter})` : ''} — initialized:{" "}
+                {String(status.initialized)} — schema v{status.schemaVersion}
               </Text>
             )}
           </View>